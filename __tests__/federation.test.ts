@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { KnowledgeGraphManager, PRIMARY_ORIGIN, TextIndex } from '../index.js';
+
+describe('read-only mounts', () => {
+  let testDir: string;
+  let primaryPath: string;
+  let sharedPath: string;
+  let sharedContent: string;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'better-memory-'));
+    primaryPath = path.join(testDir, 'memory.jsonl');
+    sharedPath = path.join(testDir, 'architecture.jsonl');
+
+    const shared = new KnowledgeGraphManager(sharedPath);
+    await shared.createEntities([
+      { name: 'AuthService', entityType: 'service', observations: ['Issues tokens'] },
+      { name: 'Database', entityType: 'store', observations: ['PostgreSQL 16'] },
+    ]);
+    await shared.createRelations([{ from: 'AuthService', to: 'Database', relationType: 'persists_to' }]);
+    sharedContent = await fs.readFile(sharedPath, 'utf-8');
+
+    manager = new KnowledgeGraphManager(primaryPath, { mounts: [{ filePath: sharedPath, label: 'shared' }] });
+    await manager.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['Owns the login flow'] },
+      { name: 'Database', entityType: 'store', observations: ['Local notes'] },
+    ]);
+    await manager.createRelations([{ from: 'Alice', to: 'AuthService', relationType: 'maintains' }]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should merge mounted graphs into read_graph with origins', async () => {
+    const graph = await manager.readGraph();
+
+    expect(graph.entities.map(e => [e.name, e.origin])).toEqual([
+      ['Alice', PRIMARY_ORIGIN],
+      ['Database', PRIMARY_ORIGIN],
+      ['AuthService', 'shared'],
+    ]);
+    expect(graph.relations.map(r => [r.relationType, r.origin])).toEqual([
+      ['maintains', PRIMARY_ORIGIN],
+      ['persists_to', 'shared'],
+    ]);
+  });
+
+  it('should let the primary graph shadow mounted entities with the same name', async () => {
+    const graph = await manager.openNodes(['Database']);
+    expect(graph.entities).toMatchObject([
+      { name: 'Database', entityType: 'store', observations: ['Local notes'], origin: PRIMARY_ORIGIN },
+    ]);
+    expect((await manager.filterByType('store')).entities).toHaveLength(1);
+  });
+
+  it('should search and traverse across graphs', async () => {
+    const search = await manager.searchNodes('tokens');
+    expect(search.entities.map(e => e.name)).toEqual(['AuthService']);
+
+    const observations = await manager.searchObservations('login');
+    expect(observations.matches.map(m => m.entityName)).toEqual(['Alice']);
+
+    const neighbors = await manager.getNeighbors('AuthService');
+    expect(neighbors.map(n => [n.entity.name, n.relation.origin])).toEqual([
+      ['Database', 'shared'],
+      ['Alice', PRIMARY_ORIGIN],
+    ]);
+
+    const found = await manager.findPath('Alice', 'Database');
+    expect(found?.path.map(e => e.name)).toEqual(['Alice', 'AuthService', 'Database']);
+
+    const relations = await manager.filterRelations({ relationType: 'persists_to' });
+    expect(relations.relations).toHaveLength(1);
+    expect(await manager.filterByObservation('postgres')).toEqual([]);
+    expect((await manager.filterByObservation('tokens')).map(e => e.name)).toEqual(['AuthService']);
+  });
+
+  it('should reuse the text index of each graph until that graph changes', async () => {
+    expect((await manager.searchNodes('tokens')).entities.map(e => e.name)).toEqual(['AuthService']);
+    const indexed = vi.spyOn(TextIndex.prototype, 'add');
+    await manager.searchNodes('tokens');
+    await manager.searchObservations('login');
+    expect(indexed).not.toHaveBeenCalled();
+
+    await new KnowledgeGraphManager(sharedPath).createEntities([{ name: 'Cache', entityType: 'store', observations: ['Keeps tokens'] }]);
+    const search = await manager.searchNodes('tokens');
+    expect(search.entities.map(e => e.name).sort()).toEqual(['AuthService', 'Cache']);
+    // Only the changed mount is indexed again
+    expect(indexed.mock.calls.map(([entity]) => entity.name)).toEqual(['AuthService', 'Database', 'Cache']);
+    indexed.mockRestore();
+  });
+
+  it('should only write to the primary file', async () => {
+    await expect(
+      manager.addObservations([{ entityName: 'AuthService', contents: ['Uses JWT'] }])
+    ).rejects.toThrow('Entity with name AuthService not found');
+    await manager.deleteRelations([{ from: 'AuthService', to: 'Database', relationType: 'persists_to' }]);
+    await manager.deleteEntities(['AuthService']);
+
+    expect(await fs.readFile(sharedPath, 'utf-8')).toBe(sharedContent);
+    expect((await manager.readGraph()).entities.map(e => e.name)).toContain('AuthService');
+  });
+
+  it('should pick up changes to a mounted file', async () => {
+    await new KnowledgeGraphManager(sharedPath).createEntities([
+      { name: 'Cache', entityType: 'store', observations: [] },
+    ]);
+
+    expect((await manager.filterByType('store')).entities.map(e => e.name)).toEqual(['Database', 'Cache']);
+  });
+
+  it('should not migrate mounted files on disk', async () => {
+    const legacyPath = path.join(testDir, 'legacy.jsonl');
+    const legacy = JSON.stringify({ type: 'entity', name: 'Legacy', entityType: 'system', observations: [] });
+    await fs.writeFile(legacyPath, legacy);
+
+    const mounted = new KnowledgeGraphManager(primaryPath, { mounts: [{ filePath: legacyPath }] });
+    expect((await mounted.openNodes(['Legacy'])).entities[0].origin).toBe('legacy');
+    expect(await fs.readFile(legacyPath, 'utf-8')).toBe(legacy);
+  });
+
+  it('should not annotate results without mounts', async () => {
+    const graph = await new KnowledgeGraphManager(primaryPath).readGraph();
+    expect(graph.entities.every(e => e.origin === undefined)).toBe(true);
+  });
+});
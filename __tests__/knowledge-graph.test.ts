@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { KnowledgeGraphManager, Entity, Relation, KnowledgeGraph } from '../index.js';
+import { KnowledgeGraphManager, JsonlGraphStorage, TextIndex, Entity, Relation, KnowledgeGraph, MEMORY_FORMAT_VERSION } from '../index.js';
 
 describe('KnowledgeGraphManager', () => {
   let manager: KnowledgeGraphManager;
@@ -24,6 +24,10 @@ describe('KnowledgeGraphManager', () => {
     } catch (error) {
       // Ignore errors if file doesn't exist
     }
+    await fs.rm(`${testFilePath}.snapshots`, { recursive: true, force: true });
+    await fs.rm(`${testFilePath}.oplog.json`, { force: true });
+    await fs.rm(`${testFilePath}.trash.json`, { force: true });
+    await fs.rm(`${testFilePath}.trash.json.corrupt`, { force: true });
   });
 
   describe('createEntities', () => {
@@ -35,7 +39,7 @@ describe('KnowledgeGraphManager', () => {
 
       const newEntities = await manager.createEntities(entities);
       expect(newEntities).toHaveLength(2);
-      expect(newEntities).toEqual(entities);
+      expect(newEntities).toMatchObject(entities);
 
       const graph = await manager.readGraph();
       expect(graph.entities).toHaveLength(2);
@@ -74,7 +78,7 @@ describe('KnowledgeGraphManager', () => {
 
       const newRelations = await manager.createRelations(relations);
       expect(newRelations).toHaveLength(1);
-      expect(newRelations).toEqual(relations);
+      expect(newRelations).toMatchObject(relations);
 
       const graph = await manager.readGraph();
       expect(graph.relations).toHaveLength(1);
@@ -388,9 +392,10 @@ describe('KnowledgeGraphManager', () => {
       const fileContent = await fs.readFile(testFilePath, 'utf-8');
       const lines = fileContent.split('\n').filter(line => line.trim());
 
-      expect(lines).toHaveLength(2);
-      expect(JSON.parse(lines[0])).toHaveProperty('type', 'entity');
-      expect(JSON.parse(lines[1])).toHaveProperty('type', 'relation');
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[0])).toEqual({ type: 'meta', formatVersion: MEMORY_FORMAT_VERSION });
+      expect(JSON.parse(lines[1])).toHaveProperty('type', 'entity');
+      expect(JSON.parse(lines[2])).toHaveProperty('type', 'relation');
     });
   });
 
@@ -415,6 +420,22 @@ describe('KnowledgeGraphManager', () => {
       ]);
     });
 
+    it('should keep substring lookups current as terms are indexed and removed', () => {
+      const index = new TextIndex([
+        { name: 'Redis', entityType: 'ExternalService', observations: ['Cache layer'] },
+      ]);
+      expect([...index.entitiesContaining('ache')]).toEqual(['Redis']);
+
+      index.add({ name: 'Varnish', entityType: 'Proxy', observations: ['HTTP cache', 'Caches pages'] });
+      expect([...index.entitiesContaining('ache')].sort()).toEqual(['Redis', 'Varnish']);
+      expect([...index.entitiesContaining('ches')]).toEqual(['Varnish']);
+
+      index.remove('Varnish');
+      expect([...index.entitiesContaining('ches')]).toEqual([]);
+      expect([...index.entitiesContaining('ache')]).toEqual(['Redis']);
+      expect([...index.entitiesContaining('prox', ['type'])]).toEqual([]);
+    });
+
     it('should search with multiple words (OR logic)', async () => {
       const result = await manager.searchNodes('Auth User');
       // Should find AuthService, AuthController, UserService
@@ -488,7 +509,7 @@ describe('KnowledgeGraphManager', () => {
       // Exact name match should have highest score
       const authServiceScore = result.scores!.find(s => s.name === 'AuthService');
       expect(authServiceScore).toBeDefined();
-      expect(authServiceScore!.score).toBeGreaterThanOrEqual(100);
+      expect(result.scores![0]).toEqual(authServiceScore);
     });
 
     it('should limit results', async () => {
@@ -514,6 +535,53 @@ describe('KnowledgeGraphManager', () => {
     });
   });
 
+  describe('relevance scoring', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'Retro', entityType: 'Meeting', observations: [
+          'Broker outage came up again during the retrospective',
+          'Somebody asked whether the broker costs could be reduced next quarter',
+          'The team agreed to revisit the broker question after the release',
+          'Brokerage fees were mentioned in passing',
+          'Lunch was ordered from the usual place',
+        ] },
+        { name: 'Kafka', entityType: 'MessageBroker', observations: ['Default broker for events'] },
+      ]);
+    });
+
+    it('should rank a short, relevant entity above a long one with weak mentions', async () => {
+      const result = await manager.searchNodes('broker');
+      expect(result.entities.map(e => e.name)).toEqual(['Kafka', 'Retro']);
+      expect(result.scores![0].score).toBeGreaterThan(result.scores![1].score);
+
+      const observations = await manager.searchObservations('broker');
+      expect(observations.matches[0].observation).toBe('Default broker for events');
+    });
+
+    it('should keep the index current as entities change', async () => {
+      expect((await manager.searchNodes('zookeeper')).entities).toEqual([]);
+      await manager.addObservations([{ entityName: 'Kafka', contents: ['Coordinated by ZooKeeper'] }]);
+      await manager.renameEntity('Retro', 'Retrospective');
+      await manager.deleteObservations([{ entityName: 'Retrospective', observations: ['Lunch was ordered from the usual place'] }]);
+
+      expect((await manager.searchNodes('zookeeper')).entities.map(e => e.name)).toEqual(['Kafka']);
+      expect((await manager.searchNodes('keep')).entities.map(e => e.name)).toEqual(['Kafka']);
+      expect((await manager.searchNodes('name:retro')).entities.map(e => e.name)).toEqual(['Retrospective']);
+      expect((await manager.searchNodes('lunch')).entities).toEqual([]);
+
+      // Scores from the updated index match those of an index built from scratch
+      const reloaded = new KnowledgeGraphManager(testFilePath);
+      expect((await manager.searchNodes('broker zookeeper')).scores)
+        .toEqual((await reloaded.searchNodes('broker zookeeper')).scores);
+    });
+
+    it('should keep boolean and field semantics for terms inside words', async () => {
+      expect((await manager.searchNodes('+broker -brokerage')).entities.map(e => e.name)).toEqual(['Kafka']);
+      expect((await manager.searchNodes('type:broker')).entities.map(e => e.name)).toEqual(['Kafka']);
+      expect((await manager.searchNodes('obs:costs name:-kafka')).entities.map(e => e.name)).toEqual(['Retro']);
+    });
+  });
+
   // ==================== Graph Traversal Tests ====================
 
   describe('getNeighbors', () => {
@@ -913,4 +981,896 @@ describe('KnowledgeGraphManager', () => {
       });
     });
   });
+
+  describe('timestamps and provenance', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const at = (timestamp: string) => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(timestamp));
+    };
+
+    it('should record creation time and source of entities, observations and relations', async () => {
+      at('2025-03-01T10:00:00.000Z');
+      const [alice] = await manager.createEntities(
+        [{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }],
+        { source: 'claude-desktop' }
+      );
+      await manager.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+      const [relation] = await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }], { source: 'cli' });
+
+      expect(alice).toMatchObject({
+        createdAt: '2025-03-01T10:00:00.000Z',
+        updatedAt: '2025-03-01T10:00:00.000Z',
+        source: 'claude-desktop',
+        observationMeta: { 'likes tea': { createdAt: '2025-03-01T10:00:00.000Z', source: 'claude-desktop' } },
+      });
+      expect(relation).toMatchObject({ createdAt: '2025-03-01T10:00:00.000Z', source: 'cli' });
+
+      // Persisted in the file
+      const graph = await new KnowledgeGraphManager(testFilePath).readGraph();
+      expect(graph.entities[0]).toEqual(alice);
+      expect(graph.entities[1].source).toBeUndefined();
+      expect(graph.relations[0]).toEqual(relation);
+    });
+
+    it('should update timestamps when observations change', async () => {
+      at('2025-03-01T10:00:00.000Z');
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+      at('2025-03-02T10:00:00.000Z');
+      await manager.addObservations([{ entityName: 'Alice', contents: ['has a cat'] }], { source: 'vscode' });
+      at('2025-03-03T10:00:00.000Z');
+      await manager.deleteObservations([{ entityName: 'Alice', observations: ['likes tea'] }]);
+
+      const [alice] = (await manager.readGraph()).entities;
+      expect(alice.createdAt).toBe('2025-03-01T10:00:00.000Z');
+      expect(alice.updatedAt).toBe('2025-03-03T10:00:00.000Z');
+      expect(alice.observationMeta).toEqual({ 'has a cat': { createdAt: '2025-03-02T10:00:00.000Z', source: 'vscode' } });
+    });
+
+    it('should filter searchObservations by recording time', async () => {
+      at('2025-03-01T10:00:00.000Z');
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: ['drinks tea'] }]);
+      at('2025-03-05T10:00:00.000Z');
+      await manager.addObservations([{ entityName: 'Alice', contents: ['drinks green tea'] }], { source: 'cli' });
+
+      const recent = await manager.searchObservations('tea', { since: '2025-03-02' });
+      expect(recent.matches).toEqual([
+        expect.objectContaining({ observation: 'drinks green tea', createdAt: '2025-03-05T10:00:00.000Z', source: 'cli' }),
+      ]);
+
+      const early = await manager.searchObservations('tea', { until: '2025-03-01' });
+      expect(early.matches.map(m => m.observation)).toEqual(['drinks tea']);
+    });
+
+    it('should fall back to date prefixes for observations without metadata', async () => {
+      await fs.writeFile(testFilePath, [
+        JSON.stringify({ type: 'meta', formatVersion: MEMORY_FORMAT_VERSION }),
+        JSON.stringify({ type: 'entity', name: 'Legacy', entityType: 'note', observations: ['[2024-06-01] moved to Postgres', 'Postgres undated'] }),
+      ].join('\n'));
+
+      const result = await manager.searchObservations('Postgres', { since: '2024-01-01', until: '2024-12-31' });
+      expect(result.matches.map(m => m.observation)).toEqual(['[2024-06-01] moved to Postgres']);
+    });
+
+    it('should filter searchNodes by change and creation time', async () => {
+      at('2025-03-01T10:00:00.000Z');
+      await manager.createEntities([
+        { name: 'OldService', entityType: 'service', observations: [] },
+        { name: 'TouchedService', entityType: 'service', observations: [] },
+      ]);
+      at('2025-03-10T10:00:00.000Z');
+      await manager.addObservations([{ entityName: 'TouchedService', contents: ['migrated'] }]);
+      await manager.createEntities([{ name: 'NewService', entityType: 'service', observations: [] }]);
+
+      const changed = await manager.searchNodes('service', { since: '2025-03-05' });
+      expect(changed.entities.map(e => e.name).sort()).toEqual(['NewService', 'TouchedService']);
+
+      const existing = await manager.searchNodes('service', { until: '2025-03-05' });
+      expect(existing.entities.map(e => e.name).sort()).toEqual(['OldService', 'TouchedService']);
+    });
+
+    it('should reject invalid dates', async () => {
+      await expect(manager.searchNodes('x', { since: 'last tuesday' })).rejects.toThrow('Invalid since date "last tuesday"');
+    });
+  });
+
+  describe('renameEntity and setEntityType', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'AuthSvc', entityType: 'service', observations: ['Issues tokens'] },
+        { name: 'Database', entityType: 'store', observations: [] },
+        { name: 'Gateway', entityType: 'service', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'AuthSvc', to: 'Database', relationType: 'persists_to' },
+        { from: 'Gateway', to: 'AuthSvc', relationType: 'calls' },
+        { from: 'AuthSvc', to: 'AuthSvc', relationType: 'refreshes' },
+      ]);
+    });
+
+    it('should rename an entity and rewrite its relations', async () => {
+      const result = await manager.renameEntity('AuthSvc', 'AuthService');
+      expect(result.updatedRelations).toBe(3);
+      expect(result.entity).toMatchObject({ name: 'AuthService', observations: ['Issues tokens'] });
+      expect(result.entity.aliases).toBeUndefined();
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['AuthService', 'Database', 'Gateway']);
+      expect(graph.relations.map(r => `${r.from}-${r.relationType}->${r.to}`)).toEqual([
+        'AuthService-persists_to->Database',
+        'Gateway-calls->AuthService',
+        'AuthService-refreshes->AuthService',
+      ]);
+      expect(await manager.getNeighbors('AuthSvc')).toEqual([]);
+    });
+
+    it('should keep the old name as an alias when asked', async () => {
+      await manager.renameEntity('AuthSvc', 'AuthService', { keepAlias: true });
+
+      expect((await manager.openNodes(['AuthSvc'])).entities.map(e => e.name)).toEqual(['AuthService']);
+      expect((await manager.getNeighbors('AuthSvc', { direction: 'incoming' })).map(n => n.entity.name)).toEqual(['Gateway', 'AuthService']);
+      await manager.addObservations([{ entityName: 'AuthSvc', contents: ['Uses JWT'] }]);
+
+      await manager.renameEntity('AuthSvc', 'Auth', { keepAlias: true });
+      const [auth] = (await manager.openNodes(['Auth'])).entities;
+      expect(auth.aliases).toEqual(['AuthSvc', 'AuthService']);
+      expect(auth.observations).toEqual(['Issues tokens', 'Uses JWT']);
+    });
+
+    it('should refuse to rename onto an existing name or alias', async () => {
+      await expect(manager.renameEntity('AuthSvc', 'Database')).rejects.toThrow('Entity with name Database already exists');
+      await manager.renameEntity('Gateway', 'ApiGateway', { keepAlias: true });
+      await expect(manager.renameEntity('AuthSvc', 'Gateway')).rejects.toThrow('Entity with name Gateway already exists');
+      await expect(manager.renameEntity('Missing', 'Other')).rejects.toThrow('Entity with name Missing not found');
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['AuthSvc', 'Database', 'ApiGateway']);
+    });
+
+    it('should change the entity type in place', async () => {
+      const entity = await manager.setEntityType('Database', 'postgres');
+      expect(entity).toMatchObject({ name: 'Database', entityType: 'postgres' });
+
+      expect((await manager.filterByType('store')).entities).toEqual([]);
+      expect((await manager.filterByType('postgres')).entities.map(e => e.name)).toEqual(['Database']);
+      expect((await manager.readGraph()).relations).toHaveLength(3);
+    });
+
+    it('should persist renames across managers', async () => {
+      await manager.renameEntity('AuthSvc', 'AuthService');
+      const reopened = new KnowledgeGraphManager(testFilePath);
+      expect((await reopened.getNeighbors('AuthService')).map(n => n.entity.name)).toEqual(['Database', 'AuthService', 'Gateway', 'AuthService']);
+    });
+  });
+
+  describe('name resolution', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'AuthService', entityType: 'service', observations: [], aliases: ['IdP'] },
+        { name: 'Database', entityType: 'store', observations: [] },
+        { name: 'user_store', entityType: 'store', observations: [] },
+        { name: 'User Store', entityType: 'store', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'AuthService', to: 'Database', relationType: 'persists_to' }]);
+    });
+
+    it('should resolve by exact name, then alias, then normalized name', async () => {
+      expect(await manager.resolveNames(['AuthService', 'IdP', 'auth-service', 'Nothing'])).toEqual([
+        { name: 'AuthService', entityName: 'AuthService', resolution: 'exact' },
+        { name: 'IdP', entityName: 'AuthService', resolution: 'alias' },
+        { name: 'auth-service', entityName: 'AuthService', resolution: 'normalized' },
+        { name: 'Nothing' },
+      ]);
+    });
+
+    it('should suggest close or ambiguous names', async () => {
+      const [typo, ambiguous] = await manager.resolveNames(['Databse', 'userstore']);
+      expect(typo).toEqual({ name: 'Databse', suggestions: ['Database'] });
+      expect(ambiguous).toEqual({ name: 'userstore', suggestions: ['user_store', 'User Store'] });
+
+      await expect(manager.addObservations([{ entityName: 'Databse', contents: ['x'] }]))
+        .rejects.toThrow('Entity with name Databse not found (did you mean Database?)');
+    });
+
+    it('should resolve names in lookups and writes', async () => {
+      expect((await manager.openNodes(['auth service', 'AuthService'])).entities.map(e => e.name)).toEqual(['AuthService']);
+      expect((await manager.getNeighbors('idp')).map(n => n.entity.name)).toEqual(['Database']);
+      expect((await manager.findPath('IdP', 'database'))?.length).toBe(1);
+      expect((await manager.filterRelations({ toEntity: 'DATABASE' })).relations).toHaveLength(1);
+
+      await manager.addObservations([{ entityName: 'auth_service', contents: ['Issues tokens'] }]);
+      expect((await manager.openNodes(['AuthService'])).entities[0].observations).toEqual(['Issues tokens']);
+
+    });
+
+    it('should require exact names for destructive writes', async () => {
+      await manager.deleteRelations([{ from: 'IdP', to: 'database', relationType: 'persists_to' }]);
+      await manager.deleteEntities(['IdP', 'database']);
+      await manager.deleteObservations([{ entityName: 'auth service', observations: [] }]);
+      expect((await manager.readGraph()).entities).toHaveLength(4);
+      expect((await manager.readGraph()).relations).toHaveLength(1);
+      await expect(manager.mergeEntities('AuthService', ['idp'])).rejects.toThrow('Entity with name idp not found (did you mean AuthService?)');
+
+      await manager.deleteRelations([{ from: 'AuthService', to: 'Database', relationType: 'persists_to' }]);
+      expect((await manager.readGraph()).relations).toEqual([]);
+      await manager.deleteEntities(['AuthService']);
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Database', 'user_store', 'User Store']);
+    });
+
+    it('should add and remove aliases', async () => {
+      const updated = await manager.updateAliases('AuthService', { add: ['Auth', 'SSO'], remove: ['IdP'] });
+      expect(updated.aliases).toEqual(['Auth', 'SSO']);
+      expect((await manager.resolveNames(['SSO']))[0]).toMatchObject({ entityName: 'AuthService', resolution: 'alias' });
+
+      await expect(manager.updateAliases('Database', { add: ['SSO'] })).rejects.toThrow('Alias SSO is already used by entity AuthService');
+      await expect(manager.updateAliases('Database', { add: ['user_store'] })).rejects.toThrow('already used by entity user_store');
+    });
+  });
+
+  describe('updateObservations and replaceInObservations', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        {
+          name: 'AuthService',
+          entityType: 'service',
+          observations: ['Uses JWT', { text: 'Tokens expire after 30 minutes', tags: ['config'] }, 'Owned by team A'],
+        },
+        { name: 'Billing', entityType: 'service', observations: ['Owned by team A', 'Runs on v1 API'] },
+      ]);
+    });
+
+    it('should replace observations by text and index, keeping their order', async () => {
+      const [result] = await manager.updateObservations([{
+        entityName: 'AuthService',
+        updates: [
+          { observation: 'Tokens expire after 30 minutes', newObservation: 'Tokens expire after 60 minutes' },
+          { index: 2, newObservation: { text: 'Owned by team B', confidence: 0.6 } },
+        ],
+      }], { source: 'cli' });
+
+      expect(result).toEqual({
+        entityName: 'AuthService',
+        updated: [{ index: 1, observation: 'Tokens expire after 60 minutes' }, { index: 2, observation: 'Owned by team B' }],
+        failed: [],
+      });
+      const [auth] = (await manager.openNodes(['AuthService'])).entities;
+      expect(auth.observations).toEqual(['Uses JWT', 'Tokens expire after 60 minutes', 'Owned by team B']);
+      expect(auth.observationMeta!['Tokens expire after 60 minutes']).toMatchObject({ tags: ['config'], source: 'cli' });
+      expect(auth.observationMeta!['Owned by team B']).toMatchObject({ confidence: 0.6 });
+      expect(auth.observationMeta!['Tokens expire after 30 minutes']).toBeUndefined();
+    });
+
+    it('should report replacements that do not match', async () => {
+      const [result] = await manager.updateObservations([{
+        entityName: 'AuthService',
+        updates: [
+          { observation: 'Uses JWT tokens', newObservation: 'x' },
+          { index: 7, newObservation: 'x' },
+          { index: 0, observation: 'Owned by team A', newObservation: 'x' },
+          { index: 0, newObservation: 'Owned by team A' },
+        ],
+      }]);
+
+      expect(result.updated).toEqual([]);
+      expect(result.failed.map(f => f.reason)).toEqual([
+        'no observation with this exact text',
+        'index 7 is out of range',
+        'observation at index 0 does not match the given text',
+        'the new text duplicates another observation',
+      ]);
+      expect((await manager.openNodes(['AuthService'])).entities[0].observations[0]).toBe('Uses JWT');
+      await expect(manager.updateObservations([{ entityName: 'Missing', updates: [] }])).rejects.toThrow('Entity with name Missing not found');
+    });
+
+    it('should return observation indexes from searchObservations', async () => {
+      const { matches } = await manager.searchObservations('team');
+      expect(matches.map(m => [m.entityName, m.index])).toEqual([['AuthService', 2], ['Billing', 0]]);
+    });
+
+    it('should substitute a regex across entities', async () => {
+      const result = await manager.replaceInObservations('team (\\w)', 'squad $1');
+      expect(result).toEqual([
+        { entityName: 'AuthService', replaced: [{ index: 2, before: 'Owned by team A', after: 'Owned by squad A' }] },
+        { entityName: 'Billing', replaced: [{ index: 0, before: 'Owned by team A', after: 'Owned by squad A' }] },
+      ]);
+
+      const limited = await manager.replaceInObservations('v1', 'v2', { entityNames: ['AuthService'] });
+      expect(limited).toEqual([]);
+      expect((await manager.openNodes(['Billing'])).entities[0].observations).toEqual(['Owned by squad A', 'Runs on v1 API']);
+    });
+
+    it('should remove observations that become empty or duplicate', async () => {
+      const [result] = await manager.replaceInObservations('^(Uses JWT|Owned by team A)$', '', { entityNames: ['AuthService'] });
+      expect(result.replaced.map(r => r.after)).toEqual([null, null]);
+      expect((await manager.openNodes(['AuthService'])).entities[0].observations).toEqual(['Tokens expire after 30 minutes']);
+
+      await expect(manager.replaceInObservations('(', 'x')).rejects.toThrow('Invalid regular expression');
+    });
+  });
+
+  describe('mergeEntities and findDuplicateEntities', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'AuthService', entityType: 'service', observations: ['Issues tokens'] },
+        { name: 'auth-service', entityType: 'service', observations: ['Issues tokens', 'Uses JWT'] },
+        { name: 'Auth Service', entityType: 'module', observations: ['Rotates keys'] },
+        { name: 'Database', entityType: 'store', observations: [] },
+        { name: 'Gateway', entityType: 'service', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'AuthService', to: 'Database', relationType: 'persists_to' },
+        { from: 'auth-service', to: 'Database', relationType: 'persists_to' },
+        { from: 'Gateway', to: 'auth-service', relationType: 'calls' },
+        { from: 'Auth Service', to: 'AuthService', relationType: 'wraps' },
+        { from: 'auth-service', to: 'Auth Service', relationType: 'wraps' },
+      ]);
+    });
+
+    it('should fold entities into the survivor', async () => {
+      const result = await manager.mergeEntities('AuthService', ['auth-service', 'Auth Service', 'AuthService']);
+
+      expect(result).toMatchObject({
+        merged: ['auth-service', 'Auth Service'],
+        addedObservations: 2,
+        repointedRelations: 1,
+        droppedRelations: 3,
+        typeConflicts: [{ name: 'Auth Service', entityType: 'module' }],
+      });
+      expect(result.entity.observations).toEqual(['Issues tokens', 'Uses JWT', 'Rotates keys']);
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['AuthService', 'Database', 'Gateway']);
+      expect(graph.relations.map(r => `${r.from}-${r.relationType}->${r.to}`)).toEqual([
+        'AuthService-persists_to->Database',
+        'Gateway-calls->AuthService',
+      ]);
+    });
+
+    it('should keep the names and aliases of merged entities as aliases of the survivor', async () => {
+      await manager.updateAliases('auth-service', { add: ['idp'] });
+      const result = await manager.mergeEntities('AuthService', ['auth-service', 'Auth Service']);
+      expect(result.entity.aliases).toEqual(['auth-service', 'idp', 'Auth Service']);
+      expect((await manager.openNodes(['idp'])).entities.map(e => e.name)).toEqual(['AuthService']);
+      expect((await manager.openNodes(['auth-service'])).entities.map(e => e.name)).toEqual(['AuthService']);
+
+      await manager.undo();
+      expect((await manager.openNodes(['AuthService'])).entities[0].aliases ?? []).toEqual([]);
+      expect((await manager.openNodes(['idp'])).entities.map(e => e.name)).toEqual(['auth-service']);
+    });
+
+    it('should refuse to merge unknown entities', async () => {
+      await expect(manager.mergeEntities('AuthService', ['Missing'])).rejects.toThrow('Entity with name Missing not found');
+      await expect(manager.mergeEntities('Missing', ['Gateway'])).rejects.toThrow('Entity with name Missing not found');
+      expect((await manager.readGraph()).entities).toHaveLength(5);
+    });
+
+    it('should propose duplicates by normalized name', async () => {
+      const candidates = await manager.findDuplicateEntities();
+      expect(candidates.map(c => [...c.names, c.similarity])).toEqual([
+        ['AuthService', 'auth-service', 1],
+        ['AuthService', 'Auth Service', 1],
+        ['auth-service', 'Auth Service', 1],
+      ]);
+      expect(candidates[1].entityTypes).toEqual(['service', 'module']);
+    });
+
+    it('should tolerate typos down to the threshold', async () => {
+      await manager.createEntities([{ name: 'Gatway', entityType: 'service', observations: [] }]);
+
+      const loose = await manager.findDuplicateEntities({ entityType: 'service', threshold: 0.8 });
+      expect(loose.map(c => [...c.names, c.similarity])).toEqual([
+        ['AuthService', 'auth-service', 1],
+        ['Gateway', 'Gatway', 0.857],
+      ]);
+      expect(await manager.findDuplicateEntities({ entityType: 'service', threshold: 0.9, limit: 5 })).toHaveLength(1);
+    });
+  });
+
+  describe('relation properties', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'App', entityType: 'service', observations: [] },
+        { name: 'Cache', entityType: 'store', observations: [] },
+        { name: 'Queue', entityType: 'store', observations: [] },
+        { name: 'Database', entityType: 'store', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'App', to: 'Database', relationType: 'calls', properties: { weight: 5, note: 'slow path' } },
+        { from: 'App', to: 'Cache', relationType: 'calls', properties: { weight: 1 } },
+        { from: 'Cache', to: 'Database', relationType: 'calls', properties: { weight: 1, optional: true } },
+        { from: 'App', to: 'Queue', relationType: 'publishes_to' },
+      ]);
+    });
+
+    it('should return properties with neighbors and relation filters', async () => {
+      const neighbors = await manager.getNeighbors('App', { direction: 'outgoing', relationType: 'calls' });
+      expect(neighbors.map(n => [n.entity.name, n.relation.properties])).toEqual([
+        ['Database', { weight: 5, note: 'slow path' }],
+        ['Cache', { weight: 1 }],
+      ]);
+
+      const filtered = await manager.filterRelations({ fromEntity: 'App' });
+      expect(filtered.relations.find(r => r.to === 'Queue')!.properties).toBeUndefined();
+    });
+
+    it('should filter relations by properties', async () => {
+      const pairs = async (properties: string) =>
+        (await manager.filterRelations({ properties })).relations.map(r => `${r.from}>${r.to}`);
+
+      expect(await pairs('weight>2')).toEqual(['App>Database']);
+      expect(await pairs('weight<=1, optional=true')).toEqual(['Cache>Database']);
+      expect(await pairs('note="SLOW PATH"')).toEqual(['App>Database']);
+      expect(await pairs('note')).toEqual(['App>Database']);
+      expect(await pairs('optional!=true')).toEqual(['App>Database', 'App>Cache', 'App>Queue']);
+      await expect(manager.filterRelations({ properties: 'weight>' })).rejects.toThrow('Invalid property filter "weight>"');
+    });
+
+    it('should merge, remove and replace properties with updateRelation', async () => {
+      const key = { from: 'App', to: 'Database', relationType: 'calls' };
+
+      const merged = await manager.updateRelation(key, { weight: 3, reason: 'reporting' });
+      expect(merged.properties).toEqual({ weight: 3, note: 'slow path', reason: 'reporting' });
+
+      const removed = await manager.updateRelation(key, { note: null });
+      expect(removed.properties).toEqual({ weight: 3, reason: 'reporting' });
+
+      const replaced = await manager.updateRelation(key, { weight: 2 }, { replace: true });
+      expect(replaced.properties).toEqual({ weight: 2 });
+      expect((await manager.readGraph()).relations[0]).toMatchObject({ ...key, properties: { weight: 2 } });
+    });
+
+    it('should refuse to update a missing relation', async () => {
+      await expect(manager.updateRelation({ from: 'App', to: 'Cache', relationType: 'reads' }, { weight: 1 }))
+        .rejects.toThrow('Relation App -[reads]-> Cache not found');
+    });
+
+    it('should use a property as edge weights in findPath', async () => {
+      const shortest = await manager.findPath('App', 'Database');
+      expect(shortest?.path.map(e => e.name)).toEqual(['App', 'Database']);
+      expect(shortest?.cost).toBeUndefined();
+
+      const lightest = await manager.findPath('App', 'Database', 10, 'weight');
+      expect(lightest?.path.map(e => e.name)).toEqual(['App', 'Cache', 'Database']);
+      expect(lightest?.cost).toBe(2);
+      expect(lightest?.length).toBe(2);
+    });
+
+    it('should reject non-numeric weights', async () => {
+      await expect(manager.findPath('App', 'Database', 10, 'note')).rejects.toThrow('invalid note "slow path"');
+    });
+  });
+
+  describe('structured observations', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        {
+          name: 'AuthService',
+          entityType: 'service',
+          observations: [
+            'Issues session tokens',
+            { text: 'Tokens expire after exactly 59 minutes', tags: ['quirk', 'tokens'], confidence: 0.8, source: 'code review' },
+          ],
+        },
+        { name: 'Billing', entityType: 'service', observations: ['Charges on the first of the month'] },
+      ], { source: 'cli' });
+    });
+
+    it('should store text with tags, confidence and source in observationMeta', async () => {
+      const [auth] = (await manager.openNodes(['AuthService'])).entities;
+      expect(auth.observations).toEqual(['Issues session tokens', 'Tokens expire after exactly 59 minutes']);
+      expect(auth.observationMeta!['Issues session tokens']).toMatchObject({ source: 'cli' });
+      expect(auth.observationMeta!['Issues session tokens'].tags).toBeUndefined();
+      expect(auth.observationMeta!['Tokens expire after exactly 59 minutes']).toMatchObject({
+        tags: ['quirk', 'tokens'], confidence: 0.8, source: 'code review',
+      });
+    });
+
+    it('should accept structured observations in addObservations', async () => {
+      const result = await manager.addObservations([{
+        entityName: 'Billing',
+        contents: [{ text: 'Charges on the first of the month', tags: ['ignored'] }, { text: 'Retries twice', tags: ['Quirk'] }],
+      }]);
+      expect(result).toEqual([{ entityName: 'Billing', addedObservations: ['Retries twice'] }]);
+
+      const [billing] = (await manager.openNodes(['Billing'])).entities;
+      expect(billing.observationMeta!['Charges on the first of the month'].tags).toBeUndefined();
+      expect(billing.observationMeta!['Retries twice'].tags).toEqual(['Quirk']);
+    });
+
+    it('should reject confidence outside 0 to 1', async () => {
+      await expect(manager.addObservations([{ entityName: 'Billing', contents: [{ text: 'Maybe', confidence: 2 }] }]))
+        .rejects.toThrow('Confidence of observation "Maybe" must be between 0 and 1');
+    });
+
+    it('should search observations by tag', async () => {
+      await manager.addObservations([{ entityName: 'Billing', contents: [{ text: 'Rounds totals down', tags: ['QUIRK'] }] }]);
+
+      const quirks = await manager.searchObservations('tag:quirk');
+      expect(quirks.matches.map(m => m.observation).sort()).toEqual(['Rounds totals down', 'Tokens expire after exactly 59 minutes']);
+      expect(quirks.matches.find(m => m.entityName === 'AuthService')).toMatchObject({ tags: ['quirk', 'tokens'], confidence: 0.8 });
+
+      const narrowed = await manager.searchObservations('tag:quirk totals');
+      expect(narrowed.matches.map(m => m.observation)).toEqual(['Rounds totals down']);
+      expect((await manager.searchObservations('tag:tok')).matches).toEqual([]);
+    });
+
+    it('should search nodes by tag', async () => {
+      const result = await manager.searchNodes('tag:quirk');
+      expect(result.entities.map(e => e.name)).toEqual(['AuthService']);
+
+      expect((await manager.searchNodes('service tag:-quirk')).entities.map(e => e.name)).toEqual(['Billing']);
+    });
+
+    it('should match presets against tags in filterByObservation', async () => {
+      await manager.addObservations([{ entityName: 'Billing', contents: [{ text: 'Invoices in EUR', tags: ['purpose'] }] }]);
+      expect((await manager.filterByObservation('quirk')).map(e => e.name)).toEqual(['AuthService']);
+      expect((await manager.filterByObservation('purpose')).map(e => e.name)).toEqual(['Billing']);
+    });
+  });
+
+  describe('validity and asOf reads', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'Api', entityType: 'service', observations: ['Uses Postgres', 'Serves REST'], createdAt: '2024-01-01T00:00:00.000Z' },
+        { name: 'Db', entityType: 'store', observations: [], createdAt: '2024-01-01T00:00:00.000Z' },
+        { name: 'Queue', entityType: 'store', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'Api', to: 'Db', relationType: 'uses', createdAt: '2024-01-01T00:00:00.000Z', validTo: '2025-06-01' },
+        { from: 'Api', to: 'Queue', relationType: 'uses' },
+      ]);
+    });
+
+    it('should retire observations instead of deleting them', async () => {
+      const results = await manager.retireObservations(
+        [{ entityName: 'Api', observations: ['Uses Postgres', 'Uses MySQL'] }],
+        { validTo: '2025-06-01' }
+      );
+      expect(results).toEqual([{ entityName: 'Api', retired: ['Uses Postgres'], notFound: ['Uses MySQL'], validTo: '2025-06-01' }]);
+      await manager.addObservations([{ entityName: 'Api', contents: [{ text: 'Uses DynamoDB', validFrom: '2025-06-01' }] }]);
+
+      expect((await manager.openNodes(['Api'])).entities[0].observations).toEqual(['Serves REST', 'Uses DynamoDB']);
+      expect((await manager.searchObservations('postgres')).matches).toEqual([]);
+      expect((await manager.searchNodes('postgres')).entities).toEqual([]);
+
+      const past = await manager.searchObservations('postgres', { asOf: '2025-01-01' });
+      expect(past.matches).toMatchObject([{ entityName: 'Api', observation: 'Uses Postgres', validTo: '2025-06-01' }]);
+      expect((await manager.searchNodes('postgres', { asOf: '2025-01-01' })).entities.map(e => e.name)).toEqual(['Api']);
+      expect((await manager.openNodes(['Api'], { asOf: '2025-01-01' })).entities[0].observations).toEqual(['Uses Postgres', 'Serves REST']);
+
+      // Retired observations are still stored, and retiring is undoable
+      await manager.undo(2);
+      expect((await manager.openNodes(['Api'])).entities[0].observations).toEqual(['Uses Postgres', 'Serves REST']);
+    });
+
+    it('should report stored positions for observations found after a retirement', async () => {
+      await manager.retireObservations([{ entityName: 'Api', observations: ['Uses Postgres'] }], { validTo: '2025-06-01' });
+
+      const [match] = (await manager.searchObservations('rest')).matches;
+      expect(match).toMatchObject({ observation: 'Serves REST', index: 1 });
+      const [result] = await manager.updateObservations([
+        { entityName: 'Api', updates: [{ index: match.index, newObservation: 'Serves GraphQL' }] },
+      ]);
+      expect(result.failed).toEqual([]);
+      expect((await manager.openNodes(['Api'])).entities[0].observations).toEqual(['Serves GraphQL']);
+      expect((await manager.openNodes(['Api'], { asOf: '2025-01-01' })).entities[0].observations).toEqual(['Uses Postgres']);
+    });
+
+    it('should reconstruct the graph as of a date', async () => {
+      const current = await manager.readGraph();
+      expect(current.entities.map(e => e.name)).toEqual(['Api', 'Db', 'Queue']);
+      expect(current.relations.map(r => r.to)).toEqual(['Queue']);
+
+      // Queue was recorded after the date, and a plain date covers the whole day
+      const past = await manager.readGraph({ asOf: '2025-05-31' });
+      expect(past.entities.map(e => e.name)).toEqual(['Api', 'Db']);
+      expect(past.relations.map(r => r.to)).toEqual(['Db']);
+      expect((await manager.readGraph({ asOf: '2025-06-01' })).relations).toEqual([]);
+      expect((await manager.readGraph({ asOf: '2023-12-31' })).entities).toEqual([]);
+
+      expect((await manager.getSubgraph(['Api'])).entities.map(e => e.name)).toEqual(['Api', 'Queue']);
+      expect((await manager.getSubgraph(['Api'], 1, { asOf: '2025-01-01' })).entities.map(e => e.name)).toEqual(['Api', 'Db']);
+      expect((await manager.getNeighbors('Api')).map(n => n.entity.name)).toEqual(['Queue']);
+    });
+
+    it('should validate validity windows', async () => {
+      await expect(manager.addObservations([
+        { entityName: 'Api', contents: [{ text: 'Uses Redis', validFrom: '2025-06-01', validTo: '2025-01-01' }] },
+      ])).rejects.toThrow('validTo of observation "Uses Redis" must be later than its validFrom');
+      await expect(manager.readGraph({ asOf: 'someday' })).rejects.toThrow('Invalid asOf date "someday"');
+      await expect(manager.updateRelation({ from: 'Api', to: 'Queue', relationType: 'uses' }, {}, { validTo: 'never' }))
+        .rejects.toThrow('Invalid validTo date "never"');
+
+      const retired = await manager.updateRelation({ from: 'Api', to: 'Queue', relationType: 'uses' }, {}, { validTo: '2020-01-01' });
+      expect(retired.validTo).toBe('2020-01-01');
+      expect((await manager.getNeighbors('Api'))).toEqual([]);
+    });
+  });
+
+  describe('expiry and pruneExpired', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'Sprint', entityType: 'goal', observations: ['Ship search'], expires: '2020-01-01' },
+        {
+          name: 'Alice',
+          entityType: 'person',
+          observations: ['Works on search', { text: 'Debugging issue #412', expires: '2020-01-01' }, { text: 'On call', expires: '2w' }],
+        },
+      ]);
+      await manager.createRelations([{ from: 'Alice', to: 'Sprint', relationType: 'owns' }]);
+    });
+
+    afterEach(async () => {
+      await fs.rm(`${testFilePath}.archive.jsonl`, { force: true });
+    });
+
+    it('should hide expired entities and observations from reads by default', async () => {
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice']);
+      expect(graph.entities[0].observations).toEqual(['Works on search', 'On call']);
+      expect(graph.relations).toEqual([]);
+
+      const meta = graph.entities[0].observationMeta!['On call'];
+      expect(Date.parse(meta.expiresAt!) - Date.parse(meta.createdAt!)).toBe(14 * 24 * 60 * 60 * 1000);
+
+      expect((await manager.searchObservations('issue')).matches).toEqual([]);
+      const expired = await manager.searchObservations('issue', { includeExpired: true });
+      expect(expired.matches).toMatchObject([{ entityName: 'Alice', expiresAt: '2020-01-01T00:00:00.000Z' }]);
+      expect((await manager.searchNodes('search')).entities.map(e => e.name)).toEqual(['Alice']);
+      expect((await manager.searchNodes('search', { includeExpired: true })).entities.map(e => e.name)).toEqual(['Sprint', 'Alice']);
+      expect((await manager.readGraph({ includeExpired: true })).relations).toHaveLength(1);
+
+      await expect(manager.createEntities([{ name: 'Later', entityType: 'goal', observations: [], expires: 'soon' }]))
+        .rejects.toThrow('Invalid expiry "soon" of entity "Later"');
+    });
+
+    it('should archive pruned items and report them', async () => {
+      const result = await manager.pruneExpired();
+      expect(result).toMatchObject({
+        mode: 'archive',
+        entities: ['Sprint'],
+        observations: [{ entityName: 'Alice', observations: ['Debugging issue #412'] }],
+        relations: [{ from: 'Alice', to: 'Sprint', relationType: 'owns' }],
+        archivePath: `${testFilePath}.archive.jsonl`,
+      });
+
+      const stored = await manager.readGraph({ includeExpired: true });
+      expect(stored.entities.map(e => [e.name, e.observations])).toEqual([['Alice', ['Works on search', 'On call']]]);
+      expect(stored.relations).toEqual([]);
+
+      const archive = await new KnowledgeGraphManager(result.archivePath!).readGraph({ includeExpired: true });
+      expect(archive.entities.map(e => [e.name, e.observations])).toEqual([
+        ['Sprint', ['Ship search']],
+        ['Alice', ['Debugging issue #412']],
+      ]);
+      expect(archive.relations).toHaveLength(1);
+
+      expect(await manager.pruneExpired()).toMatchObject({ entities: [], observations: [], relations: [] });
+    });
+
+    it('should keep items that changed while the archive was written', async () => {
+      const original = JsonlGraphStorage.prototype.mutate;
+      const other = new KnowledgeGraphManager(testFilePath);
+      // Another client writes between the archive write and the removal
+      const spy = vi.spyOn(JsonlGraphStorage.prototype, 'mutate').mockImplementationOnce(async function (this: JsonlGraphStorage, fn) {
+        const result = await original.call(this, fn);
+        await other.addObservations([{ entityName: 'Sprint', contents: ['Moved to next week'] }]);
+        return result;
+      });
+      const result = await manager.pruneExpired();
+      spy.mockRestore();
+
+      expect(result.entities).toEqual([]);
+      expect(result.relations).toEqual([]);
+      expect(result.observations).toEqual([{ entityName: 'Alice', observations: ['Debugging issue #412'] }]);
+      const stored = await manager.readGraph({ includeExpired: true });
+      expect(stored.entities.find(e => e.name === 'Sprint')?.observations).toEqual(['Ship search', 'Moved to next week']);
+
+      expect((await manager.pruneExpired()).entities).toEqual(['Sprint']);
+      const archive = await new KnowledgeGraphManager(result.archivePath!).readGraph({ includeExpired: true });
+      expect(archive.entities.find(e => e.name === 'Sprint')?.observations).toEqual(['Ship search', 'Moved to next week']);
+    });
+
+    it('should drop pruned items in delete mode', async () => {
+      const result = await manager.pruneExpired({ mode: 'delete' });
+      expect(result.entities).toEqual(['Sprint']);
+      expect(result.archivePath).toBeUndefined();
+      await expect(fs.access(`${testFilePath}.archive.jsonl`)).rejects.toThrow();
+
+      await manager.undo();
+      const restored = await manager.readGraph({ includeExpired: true });
+      expect(restored.entities.map(e => e.name).sort()).toEqual(['Alice', 'Sprint']);
+      expect(restored.entities.find(e => e.name === 'Alice')?.observations).toContain('Debugging issue #412');
+      expect(restored.relations).toHaveLength(1);
+    });
+  });
+
+  describe('archiving', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'Api', entityType: 'service', observations: ['Serves the frontend'] },
+        { name: 'LegacyAuth', entityType: 'service', observations: ['Old login flow'] },
+        { name: 'Db', entityType: 'store', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'Api', to: 'LegacyAuth', relationType: 'calls' },
+        { from: 'LegacyAuth', to: 'Db', relationType: 'reads' },
+        { from: 'Api', to: 'Db', relationType: 'reads' },
+      ]);
+    });
+
+    it('should leave archived entities and their relations out of reads', async () => {
+      const archived = await manager.archiveEntities(['legacyauth', 'LegacyAuth']);
+      expect(archived.entities.map(e => e.name)).toEqual(['LegacyAuth']);
+      expect(archived.entities[0].archivedAt).toBeDefined();
+      expect(archived.relations.map(r => `${r.from}->${r.to}`)).toEqual(['LegacyAuth->Db', 'Api->LegacyAuth']);
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['Api', 'Db']);
+      expect(graph.relations.map(r => `${r.from}->${r.to}`)).toEqual(['Api->Db']);
+      expect((await manager.searchNodes('login')).entities).toEqual([]);
+      expect((await manager.filterByType('service')).entities.map(e => e.name)).toEqual(['Api']);
+      expect((await manager.searchObservations('login')).matches).toEqual([]);
+      expect(await manager.findPath('Api', 'LegacyAuth')).toBeNull();
+
+      expect((await manager.readGraph({ includeArchived: true })).relations).toHaveLength(3);
+      expect((await manager.searchNodes('login', { includeArchived: true })).entities.map(e => e.name)).toEqual(['LegacyAuth']);
+      expect((await manager.filterByType('service', { includeArchived: true })).entities).toHaveLength(2);
+    });
+
+    it('should list archived neighbors as stubs', async () => {
+      await manager.archiveEntities(['LegacyAuth']);
+      const neighbors = await manager.getNeighbors('Api');
+      expect(neighbors.map(n => n.entity)).toEqual([
+        { name: 'LegacyAuth', entityType: 'service', observations: [], archivedAt: expect.any(String) },
+        expect.objectContaining({ name: 'Db', observations: [] }),
+      ]);
+      expect(await manager.getNeighbors('LegacyAuth')).toEqual([]);
+      expect((await manager.getNeighbors('Api', { includeArchived: true }))[0].entity.observations).toEqual(['Old login flow']);
+    });
+
+    it('should restore entities with unarchiveEntities and undo', async () => {
+      await manager.archiveEntities(['LegacyAuth', 'Db']);
+      const restored = await manager.unarchiveEntities(['Db', 'Api']);
+      expect(restored.entities.map(e => [e.name, e.archivedAt])).toEqual([['Db', undefined]]);
+      expect(restored.relations.map(r => `${r.from}->${r.to}`)).toEqual(['Api->Db']);
+
+      await manager.undo(2);
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Api', 'LegacyAuth', 'Db']);
+      await expect(manager.archiveEntities(['Nope'])).rejects.toThrow('Entity with name Nope not found');
+    });
+  });
+
+  describe('trash', () => {
+    beforeEach(async () => {
+      await manager.createEntities([
+        { name: 'Api', entityType: 'service', observations: ['Serves the frontend', { text: 'Uses REST', tags: ['protocol'] }] },
+        { name: 'Db', entityType: 'store', observations: [] },
+        { name: 'Cache', entityType: 'store', observations: [] },
+      ]);
+      await manager.createRelations([
+        { from: 'Api', to: 'Db', relationType: 'reads' },
+        { from: 'Cache', to: 'Api', relationType: 'serves' },
+        { from: 'Cache', to: 'Db', relationType: 'mirrors' },
+      ]);
+    });
+
+    it('should keep deleted entities with their relations and restore them together', async () => {
+      const id = await manager.deleteEntities(['Api']);
+      expect(id).toBe('1');
+      expect((await manager.readGraph()).relations.map(r => r.relationType)).toEqual(['mirrors']);
+
+      const [entry] = await manager.listTrash();
+      expect(entry).toMatchObject({ id: '1', operation: 'delete_entities', entities: ['Api'], observations: 0, relations: 2 });
+      expect(Date.parse(entry.deletedAt)).not.toBeNaN();
+
+      const restored = await manager.restoreFromTrash('1');
+      expect(restored).toMatchObject({ entities: ['Api'], skipped: [] });
+      expect(restored.relations.map(r => r.relationType)).toEqual(['reads', 'serves']);
+      const graph = await manager.readGraph();
+      expect(graph.entities.find(e => e.name === 'Api')?.observationMeta?.['Uses REST']?.tags).toEqual(['protocol']);
+      expect(graph.relations).toHaveLength(3);
+      expect(await manager.listTrash()).toEqual([]);
+      await expect(manager.restoreFromTrash('1')).rejects.toThrow('Trash entry 1 not found');
+    });
+
+    it('should restore observations and relations, skipping those whose entities are gone', async () => {
+      await manager.deleteObservations([{ entityName: 'Api', observations: ['Uses REST', 'Not there'] }]);
+      await manager.deleteRelations([{ from: 'Cache', to: 'Db', relationType: 'mirrors' }]);
+      expect((await manager.listTrash()).map(e => [e.id, e.operation, e.observations, e.relations]))
+        .toEqual([['2', 'delete_relations', 0, 1], ['1', 'delete_observations', 1, 0]]);
+
+      await manager.deleteEntities(['Db']);
+      const relations = await manager.restoreFromTrash('2');
+      expect(relations.relations).toEqual([]);
+      expect(relations.skipped).toEqual(['Relation Cache -[mirrors]-> Db: Db no longer exists']);
+
+      const observations = await manager.restoreFromTrash('1');
+      expect(observations.observations).toEqual([{ entityName: 'Api', observations: ['Uses REST'] }]);
+      expect((await manager.openNodes(['Api'])).entities[0].observations).toEqual(['Serves the frontend', 'Uses REST']);
+    });
+
+    it('should restore an entry only once when restores run concurrently', async () => {
+      await manager.deleteObservations([{ entityName: 'Api', observations: ['Uses REST'] }]);
+      const results = await Promise.allSettled([manager.restoreFromTrash('1'), manager.restoreFromTrash('1')]);
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((await manager.openNodes(['Api'])).entities[0].observations).toEqual(['Serves the frontend', 'Uses REST']);
+      expect(await manager.listTrash()).toEqual([]);
+    });
+
+    it('should take a deleted entry out of the trash on undo and put it back on redo', async () => {
+      await manager.deleteEntities(['Api']);
+      await manager.undo();
+      expect((await manager.readGraph()).relations).toHaveLength(3);
+      expect(await manager.listTrash()).toEqual([]);
+
+      await manager.redo();
+      expect((await manager.listTrash()).map(e => [e.id, e.entities])).toEqual([['1', ['Api']]]);
+      expect((await manager.restoreFromTrash('1')).entities).toEqual(['Api']);
+    });
+
+    it('should put a restored entry back in the trash on undo', async () => {
+      await manager.deleteRelations([{ from: 'Api', to: 'Db', relationType: 'reads' }]);
+      await manager.deleteObservations([{ entityName: 'Api', observations: ['Uses REST'] }]);
+      await manager.restoreFromTrash('1');
+
+      await manager.undo();
+      expect((await manager.listTrash()).map(e => e.id)).toEqual(['2', '1']);
+      expect(await manager.deleteEntities(['Cache'])).toBe('3');
+
+      await manager.undo();
+      await manager.redo();
+      expect((await manager.listTrash()).map(e => e.id)).toEqual(['3', '2', '1']);
+      await manager.undo(3);
+      expect((await manager.readGraph()).relations).toHaveLength(3);
+      expect(await manager.listTrash()).toEqual([]);
+    });
+
+    it('should keep deleting after the trash file was corrupted', async () => {
+      const trashPath = `${testFilePath}.trash.json`;
+      await fs.writeFile(trashPath, '{"nextId": 3, "entr');
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await manager.deleteEntities(['Cache'])).toBe('1');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable trash'));
+      expect(await fs.readFile(`${trashPath}.corrupt`, 'utf-8')).toBe('{"nextId": 3, "entr');
+      expect((await manager.listTrash()).map(e => e.entities)).toEqual([['Cache']]);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should keep the entities when their trash entry cannot be written', async () => {
+      const trashPath = `${testFilePath}.trash.json`;
+      const rename = fs.rename;
+      const renameSpy = vi.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+        if (to === trashPath) throw Object.assign(new Error('No space left on device'), { code: 'ENOSPC' });
+        return rename(from, to);
+      });
+
+      await expect(manager.deleteEntities(['Api'])).rejects.toThrow('No space left on device');
+      renameSpy.mockRestore();
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toContain('Api');
+      expect(graph.relations).toHaveLength(3);
+      expect(await manager.listTrash()).toEqual([]);
+    });
+
+    it('should purge entries by id, date or all at once', async () => {
+      await manager.deleteRelations([{ from: 'Api', to: 'Db', relationType: 'reads' }]);
+      await manager.deleteRelations([{ from: 'Cache', to: 'Db', relationType: 'mirrors' }]);
+      await manager.deleteRelations([{ from: 'Nope', to: 'Db', relationType: 'reads' }]);
+
+      expect((await manager.purgeTrash({ ids: ['1'] })).map(e => e.id)).toEqual(['1']);
+      expect(await manager.purgeTrash({ before: '2000-01-01' })).toEqual([]);
+      expect((await manager.purgeTrash()).map(e => e.id)).toEqual(['2']);
+      expect(await manager.listTrash()).toEqual([]);
+    });
+
+    it('should delete permanently when soft deletes are disabled', async () => {
+      const hard = new KnowledgeGraphManager(testFilePath, { softDelete: false });
+      expect(await hard.deleteEntities(['Api'])).toBeUndefined();
+      await expect(hard.listTrash()).rejects.toThrow('Soft deletes are disabled');
+      await expect(fs.access(`${testFilePath}.trash.json`)).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NamespaceManager, DEFAULT_NAMESPACE } from '../index.js';
+
+describe('NamespaceManager', () => {
+  let testDir: string;
+  let memoryFilePath: string;
+  let namespaces: NamespaceManager;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'better-memory-'));
+    memoryFilePath = path.join(testDir, 'memory.jsonl');
+    namespaces = new NamespaceManager(memoryFilePath);
+  });
+
+  afterEach(async () => {
+    await namespaces.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should store the default namespace in the memory file', async () => {
+    const manager = await namespaces.get();
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+    expect(await namespaces.get(DEFAULT_NAMESPACE)).toBe(manager);
+    expect(await fs.readFile(memoryFilePath, 'utf-8')).toContain('"Alice"');
+  });
+
+  it('should keep namespaces separate', async () => {
+    await namespaces.create('project-a');
+    await namespaces.create('project-b');
+    await (await namespaces.get('project-a')).createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+    await (await namespaces.get('project-b')).createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+
+    expect((await (await namespaces.get('project-a')).readGraph()).entities.map(e => e.name)).toEqual(['Alice']);
+    expect((await (await namespaces.get('project-b')).readGraph()).entities.map(e => e.name)).toEqual(['Bob']);
+    expect((await (await namespaces.get()).readGraph()).entities).toEqual([]);
+    await expect(fs.access(path.join(testDir, 'namespaces', 'project-a.jsonl'))).resolves.toBeUndefined();
+  });
+
+  it('should list namespaces with the default flagged', async () => {
+    await namespaces.create('work');
+
+    const list = await namespaces.list();
+    expect(list.map(n => [n.name, n.isDefault])).toEqual([['default', true], ['work', false]]);
+    expect(list[1].filePath).toBe(path.join(testDir, 'namespaces', 'work.jsonl'));
+  });
+
+  it('should reject unknown, invalid and duplicate namespaces', async () => {
+    await expect(namespaces.get('missing')).rejects.toThrow('Namespace missing does not exist');
+    await expect(namespaces.create('../escape')).rejects.toThrow('Invalid namespace name');
+    await namespaces.create('work');
+    await expect(namespaces.create('work')).rejects.toThrow('Namespace work already exists');
+    await expect(namespaces.create(DEFAULT_NAMESPACE)).rejects.toThrow('already exists');
+  });
+
+  it('should delete a namespace and keep a snapshot to restore from', async () => {
+    await namespaces.create('work');
+    await (await namespaces.get('work')).createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+    const result = await namespaces.delete('work');
+    expect(result.snapshot).toBeDefined();
+    expect((await namespaces.list()).map(n => n.name)).toEqual(['default']);
+    await expect(namespaces.get('work')).rejects.toThrow('does not exist');
+
+    await namespaces.create('work');
+    const manager = await namespaces.get('work');
+    expect(await manager.readGraph()).toEqual({ entities: [], relations: [] });
+    await manager.restoreSnapshot(result.snapshot!);
+    expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Alice']);
+  });
+
+  it('should delete the files stored next to a namespace graph and only those', async () => {
+    await namespaces.create('work');
+    await namespaces.create('work-2');
+    const manager = await namespaces.get('work');
+    await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [{ text: 'Temp', expires: '2020-01-01' }] }]);
+    await manager.deleteEntities(['Alice']);
+    await manager.restoreFromTrash('1');
+    await manager.pruneExpired();
+    // Another process writing the trash holds its lock and a temporary file
+    const directory = path.join(testDir, 'namespaces');
+    const owner = JSON.stringify({ token: 'other', pid: process.pid, hostname: os.hostname() });
+    await fs.writeFile(path.join(directory, 'work.jsonl.trash.json.lock'), owner);
+    await fs.writeFile(path.join(directory, 'work.jsonl.trash.json.123.tmp'), '');
+
+    await namespaces.delete('work');
+    expect((await fs.readdir(directory)).sort()).toEqual([
+      'work-2.jsonl',
+      'work.jsonl.snapshots',
+      'work.jsonl.trash.json.123.tmp',
+      'work.jsonl.trash.json.lock',
+    ]);
+  });
+
+  it('should not delete a namespace while another process holds its lock', async () => {
+    const locked = new NamespaceManager(memoryFilePath, { lock: { timeoutMs: 100, retryMs: 10 } });
+    await locked.create('work');
+    const filePath = locked.filePathFor('work');
+    await fs.writeFile(`${filePath}.lock`, JSON.stringify({ token: 'other', pid: process.pid, hostname: os.hostname() }));
+
+    await expect(locked.delete('work')).rejects.toThrow('Timed out');
+    expect(await fs.readFile(filePath, 'utf-8')).not.toBe('');
+    await locked.close();
+  });
+
+  it('should refuse to delete the default namespaces', async () => {
+    const custom = new NamespaceManager(memoryFilePath, { defaultNamespace: 'work' });
+    await expect(custom.delete('work')).rejects.toThrow('Namespace work cannot be deleted');
+    await expect(custom.delete(DEFAULT_NAMESPACE)).rejects.toThrow('cannot be deleted');
+  });
+
+  it('should use a configured default namespace without creating it first', async () => {
+    const custom = new NamespaceManager(memoryFilePath, { defaultNamespace: 'work', directory: path.join(testDir, 'graphs') });
+    await (await custom.get()).createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+    expect(await fs.readFile(path.join(testDir, 'graphs', 'work.jsonl'), 'utf-8')).toContain('"Alice"');
+    expect((await custom.list()).find(n => n.isDefault)!.name).toBe('work');
+    await custom.close();
+  });
+
+  it('should reject an invalid default namespace', () => {
+    expect(() => new NamespaceManager(memoryFilePath, { defaultNamespace: 'a/b' })).toThrow('Invalid namespace name');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { KnowledgeGraphManager } from '../index.js';
+
+describe('schema', () => {
+  let testDir: string;
+  let memoryPath: string;
+  let schemaPath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'better-memory-'));
+    memoryPath = path.join(testDir, 'memory.jsonl');
+    schemaPath = path.join(testDir, 'schema.yaml');
+    await fs.writeFile(schemaPath, [
+      'entityTypes:',
+      '  Class:',
+      '    requiredObservationPrefixes: ["Purpose:"]',
+      '  Interface: {}',
+      'relationTypes:',
+      '  implements:',
+      '    domain: [Class]',
+      '    range: [Interface]',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should accept writes in warn mode and report their violations', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath } });
+    const created = await manager.createEntities([
+      { name: 'UserRepo', entityType: 'Class', observations: ['Purpose: loads users'] },
+      { name: 'Repository', entityType: 'Interface', observations: [] },
+      { name: 'Helpers', entityType: 'module', observations: [] },
+      { name: 'Cache', entityType: 'Class', observations: ['Keeps users in memory'] },
+    ]);
+    expect(created).toHaveLength(4);
+
+    const relations = await manager.createRelations([
+      { from: 'UserRepo', to: 'Repository', relationType: 'implements' },
+      { from: 'Repository', to: 'UserRepo', relationType: 'implements' },
+      { from: 'UserRepo', to: 'Helpers', relationType: 'Implements' },
+    ]);
+    expect(await manager.checkSchema({ relations: relations.slice(0, 1) })).toEqual([]);
+
+    const { mode, violations } = await manager.validateGraph();
+    expect(mode).toBe('warn');
+    expect(violations.map(v => [v.rule, v.entityName ?? v.relation?.relationType])).toEqual([
+      ['entity_type', 'Helpers'],
+      ['observation_prefix', 'Cache'],
+      ['domain', 'implements'],
+      ['range', 'implements'],
+      ['relation_type', 'Implements'],
+    ]);
+    expect(violations[4].message).toContain('did you mean implements?');
+  });
+
+  it('should reject violating writes in strict mode', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath, mode: 'strict' } });
+    await expect(manager.createEntities([
+      { name: 'UserRepo', entityType: 'Class', observations: [{ text: 'Purpose: loads users', tags: ['purpose'] }] },
+      { name: 'Helpers', entityType: 'Classes', observations: [] },
+    ])).rejects.toThrow('Entity type "Classes" is not defined in the schema (did you mean Class?)');
+    expect((await manager.readGraph()).entities).toEqual([]);
+
+    await manager.createEntities([
+      { name: 'UserRepo', entityType: 'Class', observations: ['purpose: loads users'] },
+      { name: 'Repository', entityType: 'Interface', observations: [] },
+    ]);
+    await expect(manager.createRelations([
+      { from: 'Repository', to: 'UserRepo', relationType: 'implements' },
+    ])).rejects.toThrow('implements needs a source of type Class, not Interface');
+    await manager.createRelations([{ from: 'UserRepo', to: 'Repository', relationType: 'implements' }]);
+    expect((await manager.validateGraph()).violations).toEqual([]);
+  });
+
+  it('should check type changes, renames and merges in strict mode', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath, mode: 'strict' } });
+    await manager.createEntities([
+      { name: 'UserRepo', entityType: 'Class', observations: ['Purpose: loads users'] },
+      { name: 'OrderRepo', entityType: 'Class', observations: ['Purpose: loads orders'] },
+      { name: 'Repository', entityType: 'Interface', observations: [] },
+    ]);
+    await manager.createRelations([{ from: 'UserRepo', to: 'Repository', relationType: 'implements' }]);
+
+    await expect(manager.setEntityType('Repository', 'Interfaces')).rejects.toThrow('Entity type "Interfaces" is not defined');
+    await expect(manager.setEntityType('Repository', 'Class'))
+      .rejects.toThrow('implements needs a target of type Interface, not Class');
+    await expect(manager.mergeEntities('OrderRepo', ['Repository']))
+      .rejects.toThrow('implements needs a target of type Interface, not Class');
+    const graph = await manager.readGraph();
+    expect(graph.entities.map(e => [e.name, e.entityType])).toEqual([
+      ['UserRepo', 'Class'],
+      ['OrderRepo', 'Class'],
+      ['Repository', 'Interface'],
+    ]);
+    expect(graph.relations.map(r => r.to)).toEqual(['Repository']);
+
+    await manager.renameEntity('UserRepo', 'UserRepository');
+    expect((await manager.validateGraph()).violations).toEqual([]);
+  });
+
+  it('should define types next to the memory file, overriding the schema file', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath } });
+    await manager.defineEntityType({ name: 'Class' });
+    await manager.defineRelationType({ name: 'implements', domain: ['Class', 'Interface'], range: ['Interface'] });
+
+    const schema = await manager.getSchema();
+    expect(schema.entityTypes).toEqual([{ name: 'Class' }, { name: 'Interface' }]);
+    expect(schema.relationTypes).toEqual([{ name: 'implements', domain: ['Class', 'Interface'], range: ['Interface'] }]);
+    expect(JSON.parse(await fs.readFile(`${memoryPath}.schema.json`, 'utf-8')).entityTypes).toEqual([{ name: 'Class' }]);
+  });
+
+  it('should leave graphs without a schema unrestricted', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { mode: 'strict' } });
+    await manager.createEntities([{ name: 'Anything', entityType: 'whatever', observations: [] }]);
+    expect(await manager.validateGraph()).toEqual({ mode: 'strict', violations: [] });
+
+    await manager.defineEntityType({ name: 'Class' });
+    expect((await manager.validateGraph()).violations.map(v => v.entityName)).toEqual(['Anything']);
+  });
+
+  it('should answer relation queries phrased with an inverse or symmetric type', async () => {
+    const manager = new KnowledgeGraphManager(memoryPath);
+    await manager.defineRelationType({ name: 'imports', inverse: 'importedBy' });
+    await manager.defineRelationType({ name: 'relatedTo', symmetric: true });
+    await manager.createEntities(['App', 'Lib', 'Docs'].map(name => ({ name, entityType: 'module', observations: [] })));
+    await manager.createRelations([
+      { from: 'App', to: 'Lib', relationType: 'imports' },
+      { from: 'Docs', to: 'Lib', relationType: 'relatedTo' },
+    ]);
+
+    // Stored relations are not duplicated by their reverse readings
+    expect(await manager.createRelations([
+      { from: 'Lib', to: 'App', relationType: 'importedBy' },
+      { from: 'Lib', to: 'Docs', relationType: 'relatedTo' },
+    ])).toEqual([]);
+
+    const importers = await manager.getNeighbors('Lib', { direction: 'outgoing', relationType: 'importedBy' });
+    expect(importers.map(n => [n.entity.name, n.relation.relationType, n.relation.inferred])).toEqual([['App', 'importedBy', true]]);
+    expect((await manager.getNeighbors('Lib', { direction: 'outgoing' })).map(n => [n.entity.name, n.relation.relationType]))
+      .toEqual([['App', 'importedBy'], ['Docs', 'relatedTo']]);
+    expect((await manager.getNeighbors('Lib')).map(n => n.direction)).toEqual(['incoming', 'incoming']);
+    expect((await manager.getNeighbors('Lib', { relationType: 'importedBy' })).map(n => [n.entity.name, n.direction]))
+      .toEqual([['App', 'outgoing']]);
+
+    const byInverse = await manager.filterRelations({ relationType: 'importedBy' });
+    expect(byInverse.relations).toMatchObject([{ from: 'Lib', to: 'App', relationType: 'importedBy', inferred: true }]);
+    const fromLib = await manager.filterRelations({ fromEntity: 'Lib' });
+    expect(fromLib.relations.map(r => `${r.from} ${r.relationType} ${r.to}`)).toEqual(['Lib importedBy App', 'Lib relatedTo Docs']);
+    expect((await manager.filterRelations({})).relations.every(r => !r.inferred)).toBe(true);
+
+    const found = await manager.findPath('Lib', 'App');
+    expect(found?.relations).toMatchObject([{ from: 'Lib', to: 'App', relationType: 'importedBy' }]);
+    expect((await manager.validateGraph()).violations).toEqual([]);
+  });
+
+  it('should include declared subtypes in type filters and queries', async () => {
+    await fs.writeFile(schemaPath, 'typeHierarchy:\n  Component: [Service, Repository]\n');
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath } });
+    await manager.defineTypeHierarchy('Service', ['Gateway']);
+    await manager.defineRelationType({ name: 'dependsOn', range: ['Component'] });
+    await manager.createEntities([
+      { name: 'Web', entityType: 'component', observations: [] },
+      { name: 'Auth', entityType: 'Service', observations: [] },
+      { name: 'Users', entityType: 'repository', observations: [] },
+      { name: 'Edge', entityType: 'Gateway', observations: [] },
+      { name: 'Notes', entityType: 'document', observations: [] },
+    ]);
+
+    expect((await manager.filterByType('Component')).entities.map(e => e.name)).toEqual(['Web', 'Auth', 'Users', 'Edge']);
+    expect((await manager.filterByType('service')).entities.map(e => e.name)).toEqual(['Auth', 'Edge']);
+    expect((await manager.filterByType('Component', { exact: true })).entities.map(e => e.name)).toEqual(['Web']);
+
+    expect((await manager.searchNodes('type:component')).entities.map(e => e.name)).toEqual(['Web', 'Auth', 'Users', 'Edge']);
+    expect((await manager.searchNodes('type:component', { exactType: true })).entities.map(e => e.name)).toEqual(['Web']);
+    expect((await manager.searchNodes('type:-service')).entities.map(e => e.name)).toEqual(['Web', 'Users', 'Notes']);
+
+    await manager.createRelations([
+      { from: 'Web', to: 'Edge', relationType: 'dependsOn' },
+      { from: 'Web', to: 'Notes', relationType: 'dependsOn' },
+    ]);
+    expect((await manager.validateGraph()).violations.map(v => [v.rule, v.relation?.to])).toEqual([['range', 'Notes']]);
+
+    await expect(manager.defineTypeHierarchy('Gateway', ['Component'])).rejects.toThrow('would contain a cycle');
+    await manager.defineTypeHierarchy('Service', []);
+    expect((await manager.filterByType('Service')).entities.map(e => e.name)).toEqual(['Auth']);
+  });
+
+  it('should reject malformed schema files', async () => {
+    await fs.writeFile(schemaPath, 'mode: lenient\n');
+    const manager = new KnowledgeGraphManager(memoryPath, { schema: { filePath: schemaPath } });
+    await expect(manager.validateGraph()).rejects.toThrow('Invalid schema mode "lenient"');
+  });
+});
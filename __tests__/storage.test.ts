@@ -0,0 +1,844 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { KnowledgeGraphManager, MEMORY_FORMAT_VERSION, SqliteGraphStorage, withFileLock, writeFileAtomic } from '../index.js';
+
+// node:sqlite is only available on Node.js 22.13 and newer
+const sqliteAvailable = (() => {
+  try {
+    return process.getBuiltinModule?.('node:sqlite') !== undefined;
+  } catch {
+    return false;
+  }
+})();
+
+describe('storage', () => {
+  let testDir: string;
+  let testFilePath: string;
+
+  beforeEach(async () => {
+    // Each test gets its own directory so lock and temp files never collide
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'better-memory-'));
+    testFilePath = path.join(testDir, 'memory.jsonl');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('file locking', () => {
+    it('should serialize concurrent writes from separate managers', async () => {
+      const managerA = new KnowledgeGraphManager(testFilePath);
+      const managerB = new KnowledgeGraphManager(testFilePath);
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) => {
+        const manager = i % 2 === 0 ? managerA : managerB;
+        return manager.createEntities([{ name: `Entity${i}`, entityType: 'test', observations: [] }]);
+      }));
+
+      const graph = await new KnowledgeGraphManager(testFilePath).readGraph();
+      expect(graph.entities).toHaveLength(10);
+    });
+
+    it('should release the lock after a failed mutation', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await expect(
+        manager.addObservations([{ entityName: 'Missing', contents: ['x'] }])
+      ).rejects.toThrow('Entity with name Missing not found');
+
+      const lockExists = await fs.access(`${testFilePath}.lock`).then(() => true).catch(() => false);
+      expect(lockExists).toBe(false);
+    });
+
+    it('should break a stale lock left by a crashed process', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const lockPath = `${testFilePath}.lock`;
+      await fs.writeFile(lockPath, JSON.stringify({ pid: 1, hostname: 'elsewhere', acquiredAt: '2020-01-01T00:00:00.000Z' }));
+      const old = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, old, old);
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+      expect((await manager.readGraph()).entities).toHaveLength(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Removed stale lock file'));
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should keep a lock held past staleMs while its holder is running', async () => {
+      const order: string[] = [];
+      const options = { staleMs: 100, retryMs: 10 };
+      const long = withFileLock(testFilePath, async () => {
+        order.push('long:start');
+        await new Promise(resolve => setTimeout(resolve, 400));
+        order.push('long:end');
+      }, options);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await withFileLock(testFilePath, async () => { order.push('short'); }, options);
+      await long;
+
+      expect(order).toEqual(['long:start', 'long:end', 'short']);
+    });
+
+    it('should fail without releasing a lock that another process has taken over', async () => {
+      const lockPath = `${testFilePath}.lock`;
+      const other = JSON.stringify({ token: 'other', pid: process.pid, hostname: os.hostname() });
+      await expect(withFileLock(testFilePath, async () => {
+        await fs.writeFile(lockPath, other);
+      })).rejects.toThrow('taken over by another process');
+      expect(await fs.readFile(lockPath, 'utf-8')).toBe(other);
+    });
+
+    it('should stop refreshing a lock once another process has taken it over', async () => {
+      const lockPath = `${testFilePath}.lock`;
+      const old = new Date(Date.now() - 60000);
+      await expect(withFileLock(testFilePath, async () => {
+        await fs.writeFile(lockPath, JSON.stringify({ token: 'other', pid: process.pid, hostname: os.hostname() }));
+        await fs.utimes(lockPath, old, old);
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }, { staleMs: 60 })).rejects.toThrow('taken over by another process');
+      expect((await fs.stat(lockPath)).mtimeMs).toBeLessThan(Date.now() - 30000);
+    });
+
+    it('should time out while another live process holds the lock', async () => {
+      await fs.writeFile(`${testFilePath}.lock`, JSON.stringify({ pid: process.pid, hostname: os.hostname() }));
+
+      await expect(
+        withFileLock(testFilePath, async () => 'never', { timeoutMs: 100, retryMs: 10 })
+      ).rejects.toThrow('Timed out');
+    });
+  });
+
+  describe('journal mode', () => {
+    const readLines = async () =>
+      (await fs.readFile(testFilePath, 'utf-8')).split('\n').filter(line => line.trim());
+
+    it('should append operations instead of rewriting the file', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true });
+      await manager.createEntities([
+        { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+        { name: 'Bob', entityType: 'person', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+      await manager.addObservations([{ entityName: 'Bob', contents: ['likes coffee'] }]);
+
+      const [header, ...entries] = (await readLines()).map(line => JSON.parse(line));
+      expect(header.type).toBe('meta');
+      expect(entries.map(l => l.op)).toEqual(['add_entity', 'add_entity', 'add_relation', 'add_observations']);
+      expect(entries.every(l => l.type === 'op')).toBe(true);
+    });
+
+    it('should replay the journal on load', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true });
+      await manager.createEntities([
+        { name: 'Alice', entityType: 'person', observations: ['likes tea', 'has a cat'] },
+        { name: 'Bob', entityType: 'person', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+      await manager.deleteObservations([{ entityName: 'Alice', observations: ['has a cat'] }]);
+      await manager.deleteEntities(['Bob']);
+
+      const graph = await new KnowledgeGraphManager(testFilePath).readGraph();
+      expect(graph.entities).toMatchObject([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+      expect(Object.keys(graph.entities[0].observationMeta!)).toEqual(['likes tea']);
+      expect(graph.relations).toHaveLength(0);
+    });
+
+    it('should drop a journal entry cut off by a crash', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true });
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await fs.appendFile(testFilePath, '\n{"type":"op","op":"add_entity","entity":{"name":"Bo');
+
+      const reopened = new KnowledgeGraphManager(testFilePath, { journal: true });
+      expect((await reopened.readGraph()).entities.map(e => e.name)).toEqual(['Alice']);
+      expect((await reopened.repairMemory()).quarantined).toEqual([]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Dropped a journal entry cut off at line'));
+
+      await reopened.createEntities([{ name: 'Carol', entityType: 'person', observations: [] }]);
+      expect((await readLines()).map(line => JSON.parse(line).type)).toEqual(['meta', 'op', 'op']);
+      expect((await new KnowledgeGraphManager(testFilePath).readGraph()).entities.map(e => e.name)).toEqual(['Alice', 'Carol']);
+    });
+
+    it('should append to files written in the snapshot format', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await fs.writeFile(testFilePath, [
+        JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: [] }),
+        JSON.stringify({ type: 'relation', from: 'Alice', to: 'Alice', relationType: 'self' }),
+      ].join('\n'));
+
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true });
+      await manager.deleteRelations([{ from: 'Alice', to: 'Alice', relationType: 'self' }]);
+
+      expect((await readLines()).map(line => JSON.parse(line).type)).toEqual(['meta', 'entity', 'relation', 'op']);
+      const graph = await manager.readGraph();
+      expect(graph.entities).toHaveLength(1);
+      expect(graph.relations).toHaveLength(0);
+    });
+
+    it('should compact the journal once the threshold is exceeded', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true, journalCompactionThreshold: 3 });
+      for (const name of ['A', 'B', 'C', 'D']) {
+        await manager.createEntities([{ name, entityType: 'letter', observations: [] }]);
+      }
+
+      const lines = (await readLines()).map(line => JSON.parse(line));
+      expect(lines.map(l => l.type)).toEqual(['meta', 'entity', 'entity', 'entity', 'entity']);
+    });
+
+    it('should compact on demand', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { journal: true });
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.addObservations([{ entityName: 'Alice', contents: ['likes tea'] }]);
+      await manager.compact();
+
+      const lines = (await readLines()).map(line => JSON.parse(line));
+      expect(lines).toMatchObject([
+        { type: 'meta', formatVersion: MEMORY_FORMAT_VERSION },
+        { type: 'entity', name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+      ]);
+    });
+  });
+
+  describe('format versioning', () => {
+    const legacyLines = [
+      JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: ['likes tea'] }),
+      JSON.stringify({ type: 'relation', from: 'Alice', to: 'Alice', relationType: 'self' }),
+    ].join('\n');
+
+    it('should write a format header to new files', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+      const firstLine = (await fs.readFile(testFilePath, 'utf-8')).split('\n')[0];
+      expect(JSON.parse(firstLine)).toEqual({ type: 'meta', formatVersion: MEMORY_FORMAT_VERSION });
+    });
+
+    it('should migrate unversioned files on load and keep a backup', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await fs.writeFile(testFilePath, legacyLines);
+
+      const graph = await new KnowledgeGraphManager(testFilePath).readGraph();
+      expect(graph.entities).toEqual([{ name: 'Alice', entityType: 'person', observations: ['likes tea'] }]);
+      expect(graph.relations).toHaveLength(1);
+
+      expect(await fs.readFile(`${testFilePath}.v1.bak`, 'utf-8')).toBe(legacyLines);
+      const firstLine = (await fs.readFile(testFilePath, 'utf-8')).split('\n')[0];
+      expect(JSON.parse(firstLine).formatVersion).toBe(MEMORY_FORMAT_VERSION);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('COMPLETED: Migrated memory file'));
+    });
+
+    it('should refuse files from a newer format version', async () => {
+      const content = [JSON.stringify({ type: 'meta', formatVersion: MEMORY_FORMAT_VERSION + 1 }), legacyLines].join('\n');
+      await fs.writeFile(testFilePath, content);
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await expect(manager.readGraph()).rejects.toThrow(/format version \d+, but this server only supports/);
+      await expect(manager.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]))
+        .rejects.toThrow('Please upgrade better-memory-mcp');
+      expect(await fs.readFile(testFilePath, 'utf-8')).toBe(content);
+    });
+  });
+
+  describe('corruption handling', () => {
+    const header = JSON.stringify({ type: 'meta', formatVersion: MEMORY_FORMAT_VERSION });
+    const alice = JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: ['likes tea'] });
+    const bob = JSON.stringify({ type: 'entity', name: 'Bob', entityType: 'person', observations: [] });
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should skip unparseable and structurally invalid lines', async () => {
+      await fs.writeFile(testFilePath, [
+        header,
+        alice,
+        '{"type":"entity","name":"Trunc',
+        JSON.stringify({ type: 'entity', entityType: 'person', observations: [] }),
+        JSON.stringify({ type: 'entity', name: 'Carol', entityType: 'person', observations: 'not an array' }),
+        JSON.stringify({ type: 'widget', name: 'Gadget' }),
+        bob,
+        JSON.stringify({ type: 'op', op: 'add_observations', entityName: 'Bob' }),
+      ].join('\n'));
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+
+      const report = await manager.repairMemory();
+      expect(report.rewritten).toBe(false);
+      expect(report.quarantined.map(q => [q.line, q.reason])).toEqual([
+        [3, 'line is not valid JSON'],
+        [4, 'entity is missing a name'],
+        [5, 'entity observations must be an array of strings'],
+        [6, 'unknown record type "widget"'],
+        [8, 'add_observations requires an entityName and an array of observations'],
+      ]);
+    });
+
+    it('should keep invalid lines when the file is rewritten by a mutation', async () => {
+      await fs.writeFile(testFilePath, [header, alice, 'garbage'].join('\n'));
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+
+      expect(await fs.readFile(testFilePath, 'utf-8')).toContain('garbage');
+      const report = await manager.repairMemory();
+      expect(report.quarantined.map(q => q.content)).toEqual(['garbage']);
+    });
+
+    it('should rewrite a cleaned file and keep the original as a backup', async () => {
+      const original = [header, alice, '{"half written', bob].join('\n');
+      await fs.writeFile(testFilePath, original);
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      const report = await manager.repairMemory(true);
+
+      expect(report.rewritten).toBe(true);
+      expect(report.backupPath).toBe(`${testFilePath}.corrupt`);
+      expect(await fs.readFile(`${testFilePath}.corrupt`, 'utf-8')).toBe(original);
+      expect(await fs.readFile(testFilePath, 'utf-8')).toBe([header, alice, bob].join('\n'));
+      expect((await manager.repairMemory()).quarantined).toEqual([]);
+    });
+
+    it('should migrate unversioned files that contain corrupt lines', async () => {
+      await fs.writeFile(testFilePath, ['{"oops', alice].join('\n'));
+
+      const manager = new KnowledgeGraphManager(testFilePath);
+      expect((await manager.readGraph()).entities).toHaveLength(1);
+      expect((await manager.repairMemory()).quarantined.map(q => q.content)).toEqual(['{"oops']);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should snapshot before destructive operations and restore a snapshot', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([
+        { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+        { name: 'Bob', entityType: 'person', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+      await manager.deleteEntities(['Alice', 'Bob']);
+
+      const snapshots = await manager.listSnapshots();
+      expect(snapshots[0]).toMatchObject({ reason: 'delete_entities', entities: 2, relations: 1 });
+      expect(snapshots[0].size).toBeGreaterThan(0);
+
+      const result = await manager.restoreSnapshot(snapshots[0].id);
+      expect(result).toMatchObject({ restored: snapshots[0].id, entities: 2, relations: 1 });
+      // The graph was empty, so there was nothing to back up before restoring
+      expect(result.backup).toBeUndefined();
+
+      const graph = await new KnowledgeGraphManager(testFilePath).readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+      expect(graph.relations).toMatchObject([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    });
+
+    it('should snapshot the current graph before restoring', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.deleteObservations([{ entityName: 'Alice', observations: [] }]);
+      const [first] = await manager.listSnapshots();
+      await manager.createEntities([{ name: 'Carol', entityType: 'person', observations: [] }]);
+
+      const result = await manager.restoreSnapshot(first.id);
+      expect(result.backup).toBeDefined();
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Alice']);
+
+      await manager.restoreSnapshot(result.backup!);
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Alice', 'Carol']);
+    });
+
+    it('should read snapshots in an older format without migrating them', async () => {
+      const directory = `${testFilePath}.snapshots`;
+      const snapshotPath = path.join(directory, '2020-01-01T00-00-00-000Z-manual.jsonl');
+      const legacyLines = JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: [] });
+      await fs.mkdir(directory);
+      await fs.writeFile(snapshotPath, legacyLines);
+      const manager = new KnowledgeGraphManager(testFilePath);
+
+      const [snapshot] = await manager.listSnapshots();
+      expect(snapshot).toMatchObject({ reason: 'manual', entities: 1 });
+      await manager.restoreSnapshot(snapshot.id);
+      expect((await manager.readGraph()).entities.map(e => e.name)).toEqual(['Alice']);
+
+      expect(await fs.readFile(snapshotPath, 'utf-8')).toBe(legacyLines);
+      expect((await fs.readdir(directory)).filter(f => f.includes('.bak'))).toEqual([]);
+    });
+
+    it('should keep only the configured number of snapshots', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { snapshots: { count: 2 } });
+      for (let i = 0; i < 4; i++) {
+        await manager.createEntities([{ name: `Entity${i}`, entityType: 'test', observations: [] }]);
+        await manager.deleteRelations([]);
+      }
+
+      const snapshots = await manager.listSnapshots();
+      expect(snapshots.map(s => s.entities)).toEqual([4, 3]);
+      expect(await fs.readdir(`${testFilePath}.snapshots`)).toHaveLength(2);
+    });
+
+    it('should not snapshot an unchanged graph twice', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.deleteRelations([]);
+      await manager.deleteRelations([]);
+
+      expect(await manager.listSnapshots()).toHaveLength(1);
+    });
+
+    it('should take periodic snapshots only once the interval has passed', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { snapshots: { intervalMs: 60000 } });
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+      await manager.createEntities([{ name: 'Carol', entityType: 'person', observations: [] }]);
+
+      const snapshots = await manager.listSnapshots();
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0]).toMatchObject({ reason: 'interval', entities: 1 });
+    });
+
+    it('should not snapshot when disabled', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath, { snapshots: { count: 0 } });
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.deleteEntities(['Alice']);
+
+      expect(await manager.listSnapshots()).toEqual([]);
+    });
+
+    it('should reject unknown snapshot ids', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await expect(manager.restoreSnapshot('../memory')).rejects.toThrow('Snapshot ../memory not found');
+    });
+  });
+
+  describe('undo and redo', () => {
+    let manager: KnowledgeGraphManager;
+
+    beforeEach(async () => {
+      manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([
+        { name: 'Alice', entityType: 'person', observations: ['likes tea'] },
+        { name: 'Bob', entityType: 'person', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    });
+
+    it('should restore deleted entities with their observations and relations', async () => {
+      const before = structuredClone(await manager.readGraph());
+      await manager.deleteEntities(['Alice']);
+
+      const result = await manager.undo();
+      expect(result.entries).toMatchObject([{ label: 'deleteEntities', operations: 1 }]);
+      expect(result.remaining).toBe(2);
+
+      const graph = await manager.readGraph();
+      expect(graph.entities).toEqual(expect.arrayContaining(before.entities));
+      expect(graph.relations).toEqual(before.relations);
+    });
+
+    it('should revert observation changes', async () => {
+      const before = structuredClone(await manager.readGraph());
+      await manager.addObservations([{ entityName: 'Bob', contents: ['plays chess'] }]);
+      await manager.deleteObservations([{ entityName: 'Alice', observations: ['likes tea', 'not there'] }]);
+
+      await manager.undo(2);
+      const graph = await manager.readGraph();
+      expect(graph.entities.find(e => e.name === 'Alice')!.observations).toEqual(['likes tea']);
+      expect(graph.entities.find(e => e.name === 'Bob')!.observations).toEqual([]);
+      // Observation metadata comes back with the observation
+      expect(graph.entities.find(e => e.name === 'Alice')!.observationMeta)
+        .toEqual(before.entities.find(e => e.name === 'Alice')!.observationMeta);
+    });
+
+    it('should redo undone changes in order', async () => {
+      await manager.undo(2);
+      expect(await manager.readGraph()).toEqual({ entities: [], relations: [] });
+
+      const result = await manager.redo(2);
+      expect(result.entries.map(e => e.label)).toEqual(['createEntities', 'createRelations']);
+      expect(result.remaining).toBe(0);
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+      expect(graph.relations).toHaveLength(1);
+    });
+
+    it('should share the log between managers of the same file', async () => {
+      await manager.deleteRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+
+      await new KnowledgeGraphManager(testFilePath).undo();
+      expect((await manager.readGraph()).relations).toHaveLength(1);
+    });
+
+    it('should clear the redo stack on a new change', async () => {
+      await manager.undo();
+      await manager.createEntities([{ name: 'Carol', entityType: 'person', observations: [] }]);
+
+      expect(await manager.redo()).toEqual({ entries: [], remaining: 0 });
+    });
+
+    it('should not duplicate entities re-added by another client', async () => {
+      await manager.deleteEntities(['Bob']);
+      // A client without an operation log recreates Bob in the meantime
+      const other = new KnowledgeGraphManager(testFilePath, { undoLimit: 0 });
+      await other.createEntities([{ name: 'Bob', entityType: 'robot', observations: [] }]);
+      await manager.undo();
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => `${e.name}:${e.entityType}`)).toEqual(['Alice:person', 'Bob:robot']);
+      expect(graph.relations).toHaveLength(1);
+    });
+
+    it('should revert renames and type changes', async () => {
+      const before = structuredClone(await manager.readGraph());
+      await manager.renameEntity('Alice', 'Alicia', { keepAlias: true });
+      await manager.setEntityType('Alicia', 'engineer');
+      await manager.updateAliases('Alicia', { add: ['Ali'] });
+
+      await manager.undo(3);
+      expect(await manager.readGraph()).toEqual(before);
+      await manager.redo(3);
+      expect((await manager.readGraph()).entities[0]).toMatchObject({ name: 'Alicia', entityType: 'engineer', aliases: ['Alice', 'Ali'] });
+    });
+
+    it('should revert observation edits in place', async () => {
+      await manager.addObservations([{ entityName: 'Alice', contents: ['likes cake'] }]);
+      const before = structuredClone(await manager.readGraph());
+      await manager.updateObservations([{ entityName: 'Alice', updates: [{ index: 0, newObservation: 'likes coffee' }] }]);
+      await manager.replaceInObservations('likes', 'loves');
+      expect((await manager.readGraph()).entities[0].observations).toEqual(['loves coffee', 'loves cake']);
+
+      await manager.undo(2);
+      expect(await manager.readGraph()).toEqual(before);
+    });
+
+    it('should revert a merge', async () => {
+      const before = structuredClone(await manager.readGraph());
+      await manager.mergeEntities('Alice', ['Bob']);
+      expect((await manager.readGraph()).relations).toEqual([]);
+
+      await manager.undo();
+      const graph = await manager.readGraph();
+      expect(graph.entities).toEqual(expect.arrayContaining(before.entities));
+      expect(graph.relations).toEqual(before.relations);
+    });
+
+    it('should revert relation property updates', async () => {
+      await manager.updateRelation({ from: 'Alice', to: 'Bob', relationType: 'knows' }, { since: 2019 });
+      await manager.deleteRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+
+      await manager.undo();
+      expect((await manager.readGraph()).relations[0].properties).toEqual({ since: 2019 });
+      await manager.undo();
+      expect((await manager.readGraph()).relations[0].properties).toBeUndefined();
+    });
+
+    it('should keep only the configured number of entries', async () => {
+      const limited = new KnowledgeGraphManager(path.join(testDir, 'limited.jsonl'), { undoLimit: 1 });
+      await limited.createEntities([{ name: 'A', entityType: 'test', observations: [] }]);
+      await limited.createEntities([{ name: 'B', entityType: 'test', observations: [] }]);
+
+      expect((await limited.undo(5)).entries).toHaveLength(1);
+      expect((await limited.readGraph()).entities.map(e => e.name)).toEqual(['A']);
+    });
+  });
+
+  describe('graph cache', () => {
+    it('should reuse the parsed graph while the file is unchanged', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+      const first = await manager.readGraph();
+      const second = await manager.readGraph();
+      expect(second).toBe(first);
+    });
+
+    it('should reload after another process writes to the file', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      expect(await manager.getNeighbors('Alice')).toEqual([]);
+
+      const other = new KnowledgeGraphManager(testFilePath);
+      await other.createEntities([{ name: 'Bob', entityType: 'person', observations: [] }]);
+      await other.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+
+      const neighbors = await manager.getNeighbors('Alice');
+      expect(neighbors).toHaveLength(1);
+      expect(neighbors[0].entity.name).toBe('Bob');
+    });
+
+    it('should reload after the file is edited by hand', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+      await manager.readGraph();
+
+      await fs.writeFile(testFilePath, JSON.stringify({ type: 'entity', name: 'Carol', entityType: 'robot', observations: [] }));
+
+      const result = await manager.filterByType('robot');
+      expect(result.entities.map(e => e.name)).toEqual(['Carol']);
+    });
+
+    it('should discard partially applied changes when a mutation fails', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([{ name: 'Alice', entityType: 'person', observations: [] }]);
+
+      await expect(manager.addObservations([
+        { entityName: 'Alice', contents: ['likes tea'] },
+        { entityName: 'Missing', contents: ['anything'] },
+      ])).rejects.toThrow('Entity with name Missing not found');
+
+      const graph = await manager.readGraph();
+      expect(graph.entities[0].observations).toEqual([]);
+    });
+
+    it('should keep indexed lookups current after mutations', async () => {
+      const manager = new KnowledgeGraphManager(testFilePath);
+      await manager.createEntities([
+        { name: 'A', entityType: 'node', observations: [] },
+        { name: 'B', entityType: 'node', observations: [] },
+        { name: 'C', entityType: 'node', observations: [] },
+      ]);
+      await manager.createRelations([{ from: 'A', to: 'B', relationType: 'links' }]);
+      expect(await manager.findPath('A', 'C')).toBeNull();
+
+      await manager.createRelations([{ from: 'B', to: 'C', relationType: 'links' }]);
+      expect((await manager.findPath('A', 'C'))?.length).toBe(2);
+
+      await manager.deleteEntities(['B']);
+      expect(await manager.findPath('A', 'C')).toBeNull();
+      expect((await manager.filterRelations({ relationType: 'links' })).relations).toHaveLength(0);
+    });
+
+    it('should delete every copy of a name, keeping the order of what remains', async () => {
+      const lines = [
+        { type: 'entity', name: 'A', entityType: 'node', observations: [] },
+        { type: 'entity', name: '--', entityType: 'node', observations: [] },
+        { type: 'entity', name: 'B', entityType: 'node', observations: [] },
+        { type: 'entity', name: 'A', entityType: 'copy', observations: [] },
+        { type: 'entity', name: '--', entityType: 'copy', observations: [] },
+        { type: 'entity', name: 'C', entityType: 'node', observations: [] },
+        { type: 'relation', from: 'A', to: 'B', relationType: 'links' },
+        { type: 'relation', from: 'B', to: 'C', relationType: 'links' },
+        { type: 'relation', from: 'C', to: '--', relationType: 'links' },
+      ];
+      await fs.writeFile(testFilePath, lines.map(line => JSON.stringify(line)).join('\n'));
+      const manager = new KnowledgeGraphManager(testFilePath);
+
+      await manager.deleteEntities(['A', '--']);
+      await manager.createEntities([{ name: 'A', entityType: 'node', observations: [] }]);
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => `${e.name}:${e.entityType}`)).toEqual(['B:node', 'C:node', 'A:node']);
+      expect(graph.relations.map(r => `${r.from}->${r.to}`)).toEqual(['B->C']);
+    });
+  });
+
+  describe.skipIf(!sqliteAvailable)('sqlite backend', () => {
+    let manager: KnowledgeGraphManager;
+
+    beforeEach(async () => {
+      manager = new KnowledgeGraphManager(path.join(testDir, 'memory.db'), { backend: 'sqlite' });
+      await manager.createEntities([
+        { name: 'AuthService', entityType: 'Service', observations: ['Handles login'] },
+        { name: 'UserService', entityType: 'service', observations: [] },
+        { name: 'Database', entityType: 'ExternalService', observations: ['PostgreSQL'] },
+      ]);
+      await manager.createRelations([
+        { from: 'AuthService', to: 'UserService', relationType: 'calls' },
+        { from: 'AuthService', to: 'Database', relationType: 'persists_to' },
+        { from: 'UserService', to: 'Database', relationType: 'persists_to' },
+      ]);
+    });
+
+    afterEach(async () => {
+      await manager.close();
+    });
+
+    it('should restore a snapshot into the database', async () => {
+      await manager.deleteEntities(['Database']);
+      const [snapshot] = await manager.listSnapshots();
+      expect(snapshot).toMatchObject({ entities: 3, relations: 3 });
+
+      await manager.restoreSnapshot(snapshot.id);
+      const graph = await manager.readGraph();
+      expect(graph.entities.map(e => e.name)).toEqual(['AuthService', 'UserService', 'Database']);
+      expect(graph.relations).toHaveLength(3);
+    });
+
+    it('should rename entities and their relations', async () => {
+      await manager.renameEntity('Database', 'Postgres');
+      await manager.setEntityType('Postgres', 'store');
+
+      const graph = await manager.readGraph();
+      expect(graph.relations.map(r => r.to)).toEqual(['UserService', 'Postgres', 'Postgres']);
+      expect((await manager.filterByType('store')).entities.map(e => e.name)).toEqual(['Postgres']);
+      expect((await manager.getNeighbors('Postgres')).map(n => n.entity.name)).toEqual(['AuthService', 'UserService']);
+    });
+
+    it('should update relation properties in place', async () => {
+      await manager.updateRelation({ from: 'AuthService', to: 'Database', relationType: 'persists_to' }, { weight: 0.9 });
+
+      const graph = await manager.readGraph();
+      expect(graph.relations.map(r => r.properties)).toEqual([undefined, { weight: 0.9 }, undefined]);
+      const heavy = await manager.filterRelations({ properties: 'weight>0.5' });
+      expect(heavy.relations.map(r => r.from)).toEqual(['AuthService']);
+    });
+
+    it('should archive and unarchive entities', async () => {
+      await manager.archiveEntities(['Database']);
+      expect((await manager.readGraph()).relations.map(r => r.to)).toEqual(['UserService']);
+      expect((await manager.filterByType('ExternalService', { includeArchived: true })).entities[0].archivedAt).toBeDefined();
+
+      await manager.unarchiveEntities(['Database']);
+      expect((await manager.readGraph()).relations).toHaveLength(3);
+    });
+
+    it('should resolve aliases and normalized names through the lookup table', async () => {
+      await manager.updateAliases('AuthService', { add: ['IdP'] });
+      await manager.renameEntity('UserService', 'Accounts', { keepAlias: true });
+      const expected = [
+        { name: 'IdP', entityName: 'AuthService', resolution: 'alias' },
+        { name: 'user-service', entityName: 'Accounts', resolution: 'normalized' },
+        { name: 'auth service', entityName: 'AuthService', resolution: 'normalized' },
+      ];
+      expect(await manager.resolveNames(['IdP', 'user-service', 'auth service'])).toEqual(expected);
+
+      // Databases created before the lookup table existed are indexed when opened
+      await manager.close();
+      const { DatabaseSync } = process.getBuiltinModule('node:sqlite');
+      const db = new DatabaseSync(path.join(testDir, 'memory.db'));
+      db.exec("DELETE FROM entity_names; DELETE FROM meta WHERE key = 'names_indexed'");
+      db.close();
+      manager = new KnowledgeGraphManager(path.join(testDir, 'memory.db'), { backend: 'sqlite' });
+      expect(await manager.resolveNames(['IdP', 'user-service', 'auth service'])).toEqual(expected);
+    });
+
+    it('should keep search results current after mutations', async () => {
+      expect((await manager.searchNodes('login')).entities.map(e => e.name)).toEqual(['AuthService']);
+      await manager.addObservations([{ entityName: 'UserService', contents: ['Checks login attempts'] }]);
+      await manager.setEntityType('Database', 'Store');
+      await manager.deleteObservations([{ entityName: 'AuthService', observations: ['Handles login'] }]);
+
+      expect((await manager.searchNodes('login')).entities.map(e => e.name)).toEqual(['UserService']);
+      expect((await manager.searchNodes('type:store')).entities.map(e => e.name)).toEqual(['Database']);
+      expect((await manager.searchObservations('login')).matches.map(m => m.entityName)).toEqual(['UserService']);
+    });
+
+    it('should undo a cascading delete', async () => {
+      await manager.deleteEntities(['Database']);
+      await manager.undo();
+
+      const graph = await manager.readGraph();
+      expect(graph.entities.find(e => e.name === 'Database')!.observations).toEqual(['PostgreSQL']);
+      expect(graph.relations).toHaveLength(3);
+    });
+
+    it('should persist entities, relations and observations', async () => {
+      await manager.addObservations([{ entityName: 'UserService', contents: ['Stores profiles'] }]);
+      await manager.deleteObservations([{ entityName: 'AuthService', observations: ['Handles login'] }]);
+
+      const reopened = new KnowledgeGraphManager(path.join(testDir, 'memory.db'), { backend: 'sqlite' });
+      const graph = await reopened.readGraph();
+      await reopened.close();
+
+      expect(graph.entities.map(e => e.name)).toEqual(['AuthService', 'UserService', 'Database']);
+      expect(graph.entities[0].observations).toEqual([]);
+      expect(graph.entities[1].observations).toEqual(['Stores profiles']);
+      expect(graph.relations).toHaveLength(3);
+    });
+
+    it('should reject duplicates and cascade deletes', async () => {
+      expect(await manager.createEntities([{ name: 'Database', entityType: 'x', observations: [] }])).toHaveLength(0);
+      expect(await manager.createRelations([{ from: 'AuthService', to: 'Database', relationType: 'persists_to' }])).toHaveLength(0);
+
+      await manager.deleteEntities(['Database']);
+      const graph = await manager.readGraph();
+      expect(graph.entities).toHaveLength(2);
+      expect(graph.relations).toMatchObject([{ from: 'AuthService', to: 'UserService', relationType: 'calls' }]);
+    });
+
+    it('should answer neighbor, type and relation queries', async () => {
+      const outgoing = await manager.getNeighbors('AuthService', { direction: 'outgoing' });
+      expect(outgoing.map(n => n.entity.name)).toEqual(['UserService', 'Database']);
+
+      const byType = await manager.filterByType('SERVICE');
+      expect(byType.entities.map(e => e.name)).toEqual(['AuthService', 'UserService']);
+      expect(byType.relations).toHaveLength(1);
+
+      const persists = await manager.filterRelations({ relationType: 'persists_to', toEntity: 'Database' });
+      expect(persists.relations).toHaveLength(2);
+
+      expect((await manager.findPath('AuthService', 'Database'))?.length).toBe(1);
+      expect((await manager.searchNodes('service')).relations).toHaveLength(3);
+    });
+
+    it('should roll back a failed mutation', async () => {
+      await expect(manager.addObservations([
+        { entityName: 'AuthService', contents: ['Issues tokens'] },
+        { entityName: 'Missing', contents: ['anything'] },
+      ])).rejects.toThrow('Entity with name Missing not found');
+
+      const result = await manager.openNodes(['AuthService']);
+      expect(result.entities[0].observations).toEqual(['Handles login']);
+    });
+
+    it('should refuse writes to a read-only database and serve it as a mount', async () => {
+      const databasePath = path.join(testDir, 'memory.db');
+      const readOnly = new SqliteGraphStorage(databasePath, undefined, { readOnly: true });
+      expect((await readOnly.loadGraph()).entities).toHaveLength(3);
+      await expect(readOnly.mutate(() => undefined)).rejects.toThrow(`Memory database ${databasePath} is mounted read-only`);
+      await expect(readOnly.compact()).rejects.toThrow('is mounted read-only');
+      await readOnly.close();
+      await expect(new SqliteGraphStorage(path.join(testDir, 'missing.db'), undefined, { readOnly: true }).loadGraph())
+        .rejects.toThrow('does not exist and cannot be created read-only');
+      await expect(fs.access(path.join(testDir, 'missing.db'))).rejects.toThrow();
+
+      const mounting = new KnowledgeGraphManager(path.join(testDir, 'local.jsonl'), { mounts: [{ filePath: databasePath }] });
+      const graph = await mounting.readGraph();
+      expect(graph.entities.map(e => [e.name, e.origin])).toEqual([
+        ['AuthService', 'memory'],
+        ['UserService', 'memory'],
+        ['Database', 'memory'],
+      ]);
+      await mounting.close();
+    });
+
+    it('should migrate an existing JSONL file once', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const legacyPath = path.join(testDir, 'legacy.jsonl');
+      await fs.writeFile(legacyPath, [
+        JSON.stringify({ type: 'entity', name: 'Alice', entityType: 'person', observations: ['likes tea'] }),
+        JSON.stringify({ type: 'entity', name: 'Bob', entityType: 'person', observations: [] }),
+        JSON.stringify({ type: 'relation', from: 'Alice', to: 'Bob', relationType: 'knows' }),
+      ].join('\n'));
+
+      const migrated = new KnowledgeGraphManager(legacyPath, { backend: 'sqlite' });
+      expect((await migrated.readGraph()).entities).toHaveLength(2);
+      await migrated.deleteEntities(['Bob']);
+      await migrated.close();
+
+      // Reopening must not import the JSONL file a second time
+      const reopened = new KnowledgeGraphManager(legacyPath, { backend: 'sqlite' });
+      const graph = await reopened.readGraph();
+      await reopened.close();
+
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice']);
+      expect(graph.relations).toHaveLength(0);
+      expect(await fs.access(path.join(testDir, 'legacy.db')).then(() => true)).toBe(true);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('COMPLETED: Migrated 2 entities'));
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace file contents without leaving temp files behind', async () => {
+      await fs.writeFile(testFilePath, 'old');
+      await writeFileAtomic(testFilePath, 'new');
+
+      expect(await fs.readFile(testFilePath, 'utf-8')).toBe('new');
+      expect(await fs.readdir(testDir)).toEqual(['memory.jsonl']);
+    });
+  });
+});
@@ -4,8 +4,11 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { promises as fs } from 'fs';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
 
 // Define memory file path using environment variable with fallback
 export const defaultMemoryPath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'memory.jsonl');
@@ -43,6 +46,223 @@ export async function ensureMemoryFilePath(): Promise<string> {
   }
 }
 
+// ==================== File Locking & Atomic Writes ====================
+
+// Options for the cross-process lock guarding read-modify-write cycles
+export interface FileLockOptions {
+  timeoutMs?: number;  // Maximum time to wait for the lock before failing
+  retryMs?: number;    // Delay between acquisition attempts
+  staleMs?: number;    // Age after which a lock is considered abandoned
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  timeoutMs: 10000,
+  retryMs: 25,
+  staleMs: 30000,
+};
+
+function isErrnoException(error: unknown, code: string): boolean {
+  return error instanceof Error && 'code' in error && (error as NodeJS.ErrnoException).code === code;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// The contents of a lock file, identifying the process holding it
+interface LockOwner {
+  token: string;       // Unique per acquisition, so a holder only ever removes its own lock
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+async function readLock(lockPath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(lockPath, "utf-8");
+  } catch (error) {
+    if (isErrnoException(error, 'ENOENT')) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Check whether an existing lock file was left behind by a crashed process,
+ * returning its contents if so. A lock is stale when its holder has not
+ * refreshed it for staleMs or its owning process is gone.
+ */
+async function readStaleLock(lockPath: string, staleMs: number): Promise<string | undefined> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(lockPath)).mtimeMs;
+  } catch (error) {
+    if (isErrnoException(error, 'ENOENT')) return undefined;
+    throw error;
+  }
+  const content = await readLock(lockPath);
+  if (content === undefined) return undefined;
+  if (Date.now() - mtimeMs > staleMs) return content;
+
+  try {
+    const owner: Partial<LockOwner> = JSON.parse(content);
+    if (typeof owner.pid === 'number' && owner.hostname === os.hostname()) {
+      process.kill(owner.pid, 0);
+    }
+  } catch (error) {
+    // ESRCH means the owner no longer exists; EPERM means it exists but is not ours.
+    // Unparseable contents are a partial write from an in-progress acquire.
+    if (isErrnoException(error, 'ESRCH')) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Remove a stale lock, provided it still has the contents it was judged stale
+ * by. The lock is moved aside before they are compared again, since its holder
+ * may have released it and another process acquired a fresh one in the meantime;
+ * such a lock is put back. Putting it back fails only if yet another process
+ * acquired the lock in the instant it was moved aside, which is reported as an error.
+ */
+async function breakStaleLock(lockPath: string, staleContent: string): Promise<void> {
+  const stalePath = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+  try {
+    await fs.rename(lockPath, stalePath);
+  } catch (error) {
+    if (isErrnoException(error, 'ENOENT')) return;
+    throw error;
+  }
+
+  try {
+    if (await readLock(stalePath) === staleContent) {
+      console.error(`[better-memory-mcp] Removed stale lock file: ${lockPath}`);
+      return;
+    }
+    // link, unlike rename, does not replace a lock acquired in the meantime
+    await fs.link(stalePath, lockPath);
+  } catch (error) {
+    if (isErrnoException(error, 'EEXIST')) {
+      throw new Error(`Lock on ${lockPath} was acquired by two processes while breaking a stale lock; retry the operation`);
+    }
+    throw error;
+  } finally {
+    await fs.unlink(stalePath).catch(() => {});
+  }
+}
+
+/**
+ * Run fn while holding an exclusive lock file next to filePath (filePath + ".lock").
+ * Locks are shared between processes, so concurrent servers pointing at the same
+ * memory file serialize their read-modify-write cycles instead of clobbering each other.
+ * The lock's modification time is refreshed while fn runs, so a long critical
+ * section is not mistaken for an abandoned lock.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const { timeoutMs, retryMs, staleMs } = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + timeoutMs;
+  const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  let content = '';
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        const owner: LockOwner = { token, pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+        content = JSON.stringify(owner);
+        await handle.writeFile(content);
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if (!isErrnoException(error, 'EEXIST')) throw error;
+    }
+
+    const staleContent = await readStaleLock(lockPath, staleMs);
+    if (staleContent !== undefined) {
+      await breakStaleLock(lockPath, staleContent);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for lock on ${filePath}`);
+    }
+    await sleep(retryMs);
+  }
+
+  // Refresh the lock while fn runs, as long as it is ours: a lock taken over by
+  // another process must not be kept alive on its behalf
+  let lost = false;
+  const heartbeat = setInterval(async () => {
+    let current: string | undefined;
+    try {
+      current = await readLock(lockPath);
+    } catch {
+      return;
+    }
+    if (current !== content) {
+      lost = true;
+      clearInterval(heartbeat);
+      return;
+    }
+    const now = new Date();
+    await fs.utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(1, Math.floor(staleMs / 3)));
+  heartbeat.unref();
+
+  let result: T;
+  try {
+    result = await fn();
+  } finally {
+    clearInterval(heartbeat);
+    // Only remove the lock if it is still ours
+    lost ||= await readLock(lockPath).catch(() => undefined) !== content;
+    if (!lost) {
+      await fs.unlink(lockPath).catch(() => {});
+    }
+  }
+  if (lost) {
+    throw new Error(`Lock on ${filePath} was taken over by another process before the operation finished`);
+  }
+  return result;
+}
+
+/**
+ * Write a file atomically: data goes to a temporary sibling file that is flushed
+ * and renamed over the target, so readers never observe a truncated file.
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // Windows can briefly refuse the rename while another process has the target open
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await fs.rename(tempPath, filePath);
+        break;
+      } catch (error) {
+        const retryable = ['EPERM', 'EACCES', 'EBUSY'].some(code => isErrnoException(error, code));
+        if (!retryable || attempt >= 5) throw error;
+        await sleep(20 * (attempt + 1));
+      }
+    }
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
 // Initialize memory file path (will be set during startup)
 let MEMORY_FILE_PATH: string;
 
@@ -51,12 +271,59 @@ export interface Entity {
   name: string;
   entityType: string;
   observations: string[];
+  aliases?: string[];   // Former names that still resolve to this entity
+  createdAt?: string;   // ISO timestamps, recorded automatically on writes
+  updatedAt?: string;
+  source?: string;      // Client or caller label that created the entity
+  observationMeta?: Record<string, ObservationMeta>;  // Keyed by observation text
+  expiresAt?: string;   // Left out of reads once passed and removed by pruneExpired
+  archivedAt?: string;  // Set by archiveEntities; left out of reads unless archived entities are included
+  origin?: string;      // Set on read results when read-only graphs are mounted
 }
 
+// Metadata of a single observation. Observations stay plain strings so that
+// files and clients unaware of metadata keep working.
+export interface ObservationMeta {
+  createdAt?: string;
+  source?: string;
+  tags?: string[];
+  confidence?: number;  // Between 0 and 1
+  validFrom?: string;   // When the fact became true; always, if absent
+  validTo?: string;     // When it stopped being true (exclusive); still true, if absent
+  expiresAt?: string;   // As for entities
+}
+
+// An observation as accepted on input: plain text, or text with metadata
+export type ObservationInput = string | {
+  text: string;
+  tags?: string[];
+  confidence?: number;
+  source?: string;
+  validFrom?: string;
+  validTo?: string;
+  expires?: string;     // ISO date or duration from now such as 12h or 7d, stored as expiresAt
+};
+
+// An entity as accepted by createEntities, whose observations may carry metadata
+export type EntityInput = Omit<Entity, 'observations'> & { observations: ObservationInput[]; expires?: string };
+
 export interface Relation {
   from: string;
   to: string;
   relationType: string;
+  properties?: Record<string, unknown>;  // Free-form attributes, e.g. weight or note
+  createdAt?: string;
+  updatedAt?: string;
+  source?: string;
+  validFrom?: string;   // Validity window, as for observations
+  validTo?: string;
+  origin?: string;      // Set on read results when read-only graphs are mounted
+  inferred?: boolean;   // Set on read results for a stored relation read in reverse, see RelationTypeDefinition
+}
+
+// Provenance attached to the items created by a write
+export interface WriteOptions {
+  source?: string;
 }
 
 export interface KnowledgeGraph {
@@ -65,11 +332,24 @@ export interface KnowledgeGraph {
   [key: string]: unknown;
 }
 
+// Options shared by the tools reading the graph
+export interface ReadOptions {
+  asOf?: string;              // Read the graph as it stood at this date instead of the current one
+  includeExpired?: boolean;   // Keep entities and observations whose expiry has passed
+  includeArchived?: boolean;  // Keep archived entities and their relations
+}
+
 // Search options for advanced querying
 export interface SearchOptions {
   includeNeighbors?: boolean;  // Include 1-hop connected entities
   fuzzy?: boolean;             // Enable fuzzy matching for typo tolerance
   limit?: number;              // Maximum number of results
+  since?: string;              // Only entities updated at or after this date
+  until?: string;              // Only entities created at or before this date
+  asOf?: string;               // Search the graph as it stood at this date instead of the current one
+  exactType?: boolean;         // Match type: against the entity's own type only, not its supertypes
+  includeExpired?: boolean;    // Also search expired entities and observations
+  includeArchived?: boolean;   // Also search archived entities
   [key: string]: unknown;
 }
 
@@ -92,9 +372,17 @@ interface FieldQuery {
   name?: ParsedQuery;
   type?: ParsedQuery;
   obs?: ParsedQuery;
+  tag?: ParsedQuery;  // Matched against whole observation tags
   all?: ParsedQuery;  // Applies to all fields
 }
 
+// A single condition of a relation property filter such as weight>0.5
+interface PropertyCondition {
+  key: string;
+  operator?: '=' | '!=' | '>' | '>=' | '<' | '<=';  // Absent: the property must be set
+  value?: string;
+}
+
 // Neighbor result structure
 export interface NeighborResult {
   entity: Entity;
@@ -108,6 +396,7 @@ export interface PathResult {
   path: Entity[];
   relations: Relation[];
   length: number;
+  cost?: number;  // Sum of the relation weights, when a weight property was given
   [key: string]: unknown;
 }
 
@@ -116,7 +405,15 @@ export interface ObservationMatch {
   entityName: string;
   entityType: string;
   observation: string;
+  index: number;        // Position in the stored observations, retired ones included, for update_observations
   score: number;
+  createdAt?: string;
+  source?: string;
+  tags?: string[];
+  confidence?: number;
+  validFrom?: string;
+  validTo?: string;
+  expiresAt?: string;
 }
 
 // Observation search options
@@ -124,6 +421,11 @@ export interface ObservationSearchOptions {
   limit?: number;
   includeEntity?: boolean;
   fuzzy?: boolean;
+  since?: string;   // Only observations recorded at or after this date
+  until?: string;   // Only observations recorded at or before this date
+  asOf?: string;    // Search the graph as it stood at this date instead of the current one
+  includeExpired?: boolean;
+  includeArchived?: boolean;
 }
 
 // Observation search result
@@ -133,795 +435,6061 @@ export interface ObservationSearchResult {
   [key: string]: unknown;
 }
 
-// The KnowledgeGraphManager class contains all operations to interact with the knowledge graph
-export class KnowledgeGraphManager {
-  constructor(private memoryFilePath: string) {}
+// Outcome of folding entities into a survivor
+export interface MergeResult {
+  entity: Entity;                 // The survivor after the merge
+  merged: string[];               // Names of the entities folded into it
+  addedObservations: number;
+  repointedRelations: number;     // Relations moved to the survivor
+  droppedRelations: number;       // Duplicates and self-loops created by the merge
+  typeConflicts: { name: string; entityType: string }[];  // Merged entities whose type differed
+  [key: string]: unknown;
+}
 
-  // ==================== Search Helper Methods ====================
+// A replacement of one observation, addressed by its exact text or its index
+export interface ObservationUpdate {
+  observation?: string;
+  index?: number;                 // Zero-based position in the entity's observations
+  newObservation: ObservationInput;
+}
 
-  /**
-   * Tokenize a string into lowercase words
-   */
-  private tokenize(text: string): string[] {
-    return text.toLowerCase().split(/\s+/).filter(token => token.length > 0);
-  }
+export interface ObservationUpdateResult {
+  entityName: string;
+  updated: { index: number; observation: string }[];
+  failed: { observation?: string; index?: number; reason: string }[];
+  [key: string]: unknown;
+}
 
-  /**
-   * Parse a query string into structured components with boolean operators
-   * Syntax: +required -excluded "exact phrase" optional
-   */
-  private parseQuery(query: string): ParsedQuery {
-    const result: ParsedQuery = { required: [], optional: [], excluded: [], phrases: [] };
+// Observations closed by retireObservations
+export interface ObservationRetireResult {
+  entityName: string;
+  retired: string[];
+  notFound: string[];             // Given observations the entity does not have
+  validTo: string;
+  [key: string]: unknown;
+}
 
-    // Extract quoted phrases first
-    const phraseRegex = /"([^"]+)"/g;
-    let phraseMatch;
-    let remainingQuery = query;
-    while ((phraseMatch = phraseRegex.exec(query)) !== null) {
-      result.phrases.push(phraseMatch[1].toLowerCase());
-      remainingQuery = remainingQuery.replace(phraseMatch[0], ' ');
-    }
+// What pruneExpired removed from the graph
+export interface PruneResult {
+  mode: 'delete' | 'archive';
+  entities: string[];             // Expired entities, removed with their relations
+  observations: { entityName: string; observations: string[] }[];  // Expired observations of remaining entities
+  relations: Relation[];          // Relations removed with the expired entities
+  archivePath?: string;           // Where the pruned items were kept, in archive mode
+  [key: string]: unknown;
+}
 
-    // Parse remaining tokens
-    const tokens = remainingQuery.split(/\s+/).filter(t => t.length > 0);
-    for (const token of tokens) {
-      if (token.startsWith('+') && token.length > 1) {
-        result.required.push(token.slice(1).toLowerCase());
-      } else if (token.startsWith('-') && token.length > 1) {
-        result.excluded.push(token.slice(1).toLowerCase());
-      } else if (!token.startsWith('+') && !token.startsWith('-')) {
-        result.optional.push(token.toLowerCase());
-      }
-    }
+// Observations changed by a regex substitution; after is null when the observation was removed
+export interface ObservationReplaceResult {
+  entityName: string;
+  replaced: { index: number; before: string; after: string | null }[];
+  [key: string]: unknown;
+}
 
-    return result;
-  }
+// How a requested name was matched to an entity
+export interface NameResolution {
+  name: string;                   // The name as requested
+  entityName?: string;            // The entity it resolved to, if any
+  resolution?: 'exact' | 'alias' | 'normalized';
+  suggestions?: string[];         // Closest entity names when it did not resolve
+}
 
-  /**
-   * Parse a query with field-specific prefixes (name:, type:, obs:)
-   */
-  private parseFieldQuery(query: string): FieldQuery {
-    const fieldQuery: FieldQuery = {};
+const MAX_NAME_SUGGESTIONS = 3;
 
-    // Match field:value patterns, handling quoted values
-    const fieldRegex = /(name|type|obs):(?:"([^"]+)"|(\S+))/gi;
-    let match;
-    let remainingQuery = query;
+// A pair of entities whose names look like the same thing
+export interface DuplicateCandidate {
+  names: [string, string];
+  entityTypes: [string, string];
+  similarity: number;             // 1 for names equal after normalization
+}
 
-    while ((match = fieldRegex.exec(query)) !== null) {
-      const field = match[1].toLowerCase() as 'name' | 'type' | 'obs';
-      const value = match[2] || match[3]; // Quoted or unquoted value
-      fieldQuery[field] = this.parseQuery(value);
-      remainingQuery = remainingQuery.replace(match[0], ' ');
-    }
+// A single graph mutation. Mutations are expressed as operations so they can be
+// appended to the journal and replayed on load instead of rewriting the whole file.
+export type GraphOperation =
+  | { op: 'add_entity'; entity: Entity }
+  | { op: 'delete_entity'; name: string }
+  // Renames an entity and the relations referencing it; aliases replaces the entity's aliases
+  | { op: 'rename_entity'; name: string; newName: string; aliases?: string[]; updatedAt?: string }
+  | { op: 'set_entity_type'; name: string; entityType: string; updatedAt?: string }
+  | { op: 'set_aliases'; name: string; aliases: string[]; updatedAt?: string }
+  | { op: 'set_archived'; name: string; archivedAt?: string; updatedAt?: string }  // Without archivedAt: unarchive
+  | { op: 'add_observations'; entityName: string; observations: string[]; meta?: Record<string, ObservationMeta>; updatedAt?: string }
+  | { op: 'delete_observations'; entityName: string; observations: string[]; updatedAt?: string }
+  // Replaces an entity's observations and their metadata as a whole, as edits must keep their order
+  | { op: 'set_observations'; entityName: string; observations: string[]; meta?: Record<string, ObservationMeta>; updatedAt?: string }
+  | { op: 'add_relation'; relation: Relation }
+  | { op: 'update_relation'; relation: Relation }  // Replaces the relation with the same endpoints and type
+  | { op: 'delete_relation'; relation: Relation };
+
+type OperationOf<K extends GraphOperation['op']> = Extract<GraphOperation, { op: K }>;
+
+/**
+ * Apply an add_observations operation to an entity. Shared by all backends so
+ * that metadata is handled identically; maps are replaced rather than modified,
+ * as copies of an entity may share them.
+ */
+function addObservationsTo(entity: Entity, operation: OperationOf<'add_observations'>): void {
+  entity.observations.push(...operation.observations);
+  if (operation.meta) {
+    entity.observationMeta = { ...entity.observationMeta, ...operation.meta };
+  }
+  if (operation.updatedAt) entity.updatedAt = operation.updatedAt;
+}
 
-    // Remaining query applies to all fields
-    remainingQuery = remainingQuery.trim();
-    if (remainingQuery) {
-      fieldQuery.all = this.parseQuery(remainingQuery);
-    }
+function removeObservationsFrom(entity: Entity, operation: OperationOf<'delete_observations'>): void {
+  entity.observations = entity.observations.filter(o => !operation.observations.includes(o));
+  if (entity.observationMeta) {
+    const meta = { ...entity.observationMeta };
+    operation.observations.forEach(o => delete meta[o]);
+    entity.observationMeta = meta;
+  }
+  if (operation.updatedAt) entity.updatedAt = operation.updatedAt;
+}
 
-    return fieldQuery;
+function setAliasesOf(entity: Entity, aliases: string[] | undefined, updatedAt: string | undefined): void {
+  if (aliases && aliases.length > 0) {
+    entity.aliases = [...aliases];
+  } else {
+    delete entity.aliases;
   }
+  if (updatedAt) entity.updatedAt = updatedAt;
+}
 
-  /**
-   * Check if text matches a parsed query
-   */
-  private matchesParsedQuery(text: string, parsed: ParsedQuery): boolean {
-    const lowerText = text.toLowerCase();
+function setArchivedOf(entity: Entity, archivedAt: string | undefined, updatedAt: string | undefined): void {
+  if (archivedAt !== undefined) {
+    entity.archivedAt = archivedAt;
+  } else {
+    delete entity.archivedAt;
+  }
+  if (updatedAt) entity.updatedAt = updatedAt;
+}
 
-    // All required terms must match
-    if (parsed.required.length > 0) {
-      if (parsed.required.some(term => !lowerText.includes(term))) return false;
-    }
+function renameEntityTo(entity: Entity, operation: OperationOf<'rename_entity'>): void {
+  entity.name = operation.newName;
+  setAliasesOf(entity, operation.aliases, operation.updatedAt);
+}
 
-    // No excluded terms may match
-    if (parsed.excluded.some(term => lowerText.includes(term))) return false;
+// A copy of a relation with references to an entity moved to its new name
+function renameEndpoints(relation: Relation, name: string, newName: string): Relation {
+  return {
+    ...relation,
+    from: relation.from === name ? newName : relation.from,
+    to: relation.to === name ? newName : relation.to,
+  };
+}
 
-    // All phrases must match exactly
-    if (parsed.phrases.some(phrase => !lowerText.includes(phrase))) return false;
+// Relations starting or ending at an entity, each listed once
+function relationsOf(view: GraphView, name: string): Relation[] {
+  return Array.from(new Set([...view.getOutgoing(name), ...view.getIncoming(name)]));
+}
 
-    // At least one optional term must match (if any exist and no required terms)
-    if (parsed.optional.length > 0 && parsed.required.length === 0 && parsed.phrases.length === 0) {
-      if (!parsed.optional.some(term => lowerText.includes(term))) return false;
-    }
+// The stored relation with the same endpoints and type, if any
+function findRelation(view: GraphView, relation: Relation): Relation | undefined {
+  return view.getOutgoing(relation.from, relation.relationType).find(r => r.to === relation.to);
+}
 
-    return true;
+function setObservationsOf(entity: Entity, operation: OperationOf<'set_observations'>): void {
+  entity.observations = [...operation.observations];
+  if (operation.meta) {
+    entity.observationMeta = { ...operation.meta };
+  } else {
+    delete entity.observationMeta;
   }
+  if (operation.updatedAt) entity.updatedAt = operation.updatedAt;
+}
 
-  /**
-   * Check if an entity matches a field-specific query
-   */
-  private entityMatchesFieldQuery(entity: Entity, fieldQuery: FieldQuery): boolean {
-    // Check field-specific queries
-    if (fieldQuery.name && !this.matchesParsedQuery(entity.name, fieldQuery.name)) return false;
-    if (fieldQuery.type && !this.matchesParsedQuery(entity.entityType, fieldQuery.type)) return false;
-    if (fieldQuery.obs) {
-      const allObs = entity.observations.join(' ');
-      if (!this.matchesParsedQuery(allObs, fieldQuery.obs)) return false;
-    }
+/**
+ * Reduce a name to the characters that distinguish it, so that AuthService,
+ * auth-service and "Auth Service" compare equal.
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
 
-    // Check "all fields" query
-    if (fieldQuery.all) {
-      const allText = `${entity.name} ${entity.entityType} ${entity.observations.join(' ')}`;
-      if (!this.matchesParsedQuery(allText, fieldQuery.all)) return false;
-    }
+// The normalized forms of an entity's name and aliases, each listed once
+function nameKeys(entity: Entity): string[] {
+  return Array.from(new Set([entity.name, ...entity.aliases ?? []].map(normalizeName))).filter(key => key !== '');
+}
 
-    return true;
-  }
+// Synchronous lookups over a storage backend's current contents
+export interface GraphView {
+  getEntity(name: string): Entity | undefined;
+  hasEntity(name: string): boolean;
+  getEntityByAlias(alias: string): Entity | undefined;
+  getEntitiesByNameKey(key: string): Entity[];               // Name or an alias normalizes to the key
+  getEntitiesByType(entityType: string): Entity[];           // Case-insensitive
+  getOutgoing(name: string, relationType?: string): Relation[];
+  getIncoming(name: string, relationType?: string): Relation[];
+  getRelationsByType(relationType: string): Relation[];      // Case-insensitive
+  hasRelation(relation: Relation): boolean;
+  listEntities(): Entity[];
+  listRelations(): Relation[];
+}
 
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
+/**
+ * An in-memory graph with lookup structures, so reads do not scan every entity
+ * or relation. Operations applied through the index keep both graph and lookups
+ * current; replaying a journal and performing a live mutation share this code.
+ */
+export class GraphIndex implements GraphView {
+  private entitiesByName = new Map<string, Entity>();
+  private entitiesByType = new Map<string, Entity[]>();
+  private entitiesByAlias = new Map<string, Entity>();
+  private entitiesByNameKey = new Map<string, Entity[]>();
+  private outgoing = new Map<string, Relation[]>();
+  private incoming = new Map<string, Relation[]>();
+  private relationsByType = new Map<string, Relation[]>();
+  private text?: TextIndex;  // Built on first use, then kept current by apply
+  // Deleted entities and relations still in the graph's arrays. They are
+  // filtered out together when the graph is next read, so that a mutation
+  // deleting many of them makes one pass over the arrays instead of one each.
+  private deletedEntities = new Set<Entity>();
+  private deletedRelations = new Set<Relation>();
+
+  constructor(private contents: KnowledgeGraph = { entities: [], relations: [] }) {
+    contents.entities.forEach(entity => this.indexEntity(entity));
+    contents.relations.forEach(relation => this.indexRelation(relation));
+  }
 
-    for (let i = 0; i <= a.length; i++) {
-      matrix[i] = [i];
+  get graph(): KnowledgeGraph {
+    if (this.deletedEntities.size > 0) {
+      this.contents.entities = this.contents.entities.filter(e => !this.deletedEntities.has(e));
+      this.deletedEntities.clear();
     }
-    for (let j = 0; j <= b.length; j++) {
-      matrix[0][j] = j;
+    if (this.deletedRelations.size > 0) {
+      this.contents.relations = this.contents.relations.filter(r => !this.deletedRelations.has(r));
+      this.deletedRelations.clear();
     }
+    return this.contents;
+  }
 
-    for (let i = 1; i <= a.length; i++) {
-      for (let j = 1; j <= b.length; j++) {
-        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,      // deletion
-          matrix[i][j - 1] + 1,      // insertion
-          matrix[i - 1][j - 1] + cost // substitution
-        );
-      }
+  private static append<V>(map: Map<string, V[]>, key: string, value: V): void {
+    const list = map.get(key);
+    if (list) {
+      list.push(value);
+    } else {
+      map.set(key, [value]);
     }
-
-    return matrix[a.length][b.length];
   }
 
-  /**
-   * Check if text fuzzy-matches a query term
-   */
-  private fuzzyMatch(text: string, query: string, maxDistance?: number): boolean {
-    const words = text.toLowerCase().split(/\s+/);
-    const queryLower = query.toLowerCase();
+  private static remove<V>(map: Map<string, V[]>, key: string, value: V): void {
+    const list = map.get(key);
+    if (!list) return;
+    const remaining = list.filter(item => item !== value);
+    if (remaining.length > 0) {
+      map.set(key, remaining);
+    } else {
+      map.delete(key);
+    }
+  }
 
-    // Calculate max distance based on query length if not provided
-    const distance = maxDistance ?? Math.max(1, Math.floor(queryLower.length / 4));
+  private indexEntity(entity: Entity): void {
+    // First entity wins, matching graph.entities.find semantics
+    if (!this.entitiesByName.has(entity.name)) {
+      this.entitiesByName.set(entity.name, entity);
+    }
+    GraphIndex.append(this.entitiesByType, entity.entityType.toLowerCase(), entity);
+    this.indexNames(entity);
+  }
 
-    return words.some(word => {
-      // Exact substring match always wins
-      if (word.includes(queryLower) || queryLower.includes(word)) return true;
-      // Fuzzy match for similar-length words
-      if (Math.abs(word.length - queryLower.length) <= distance) {
-        return this.levenshteinDistance(word, queryLower) <= distance;
-      }
-      return false;
+  private indexNames(entity: Entity): void {
+    entity.aliases?.forEach(alias => {
+      if (!this.entitiesByAlias.has(alias)) this.entitiesByAlias.set(alias, entity);
     });
+    nameKeys(entity).forEach(key => GraphIndex.append(this.entitiesByNameKey, key, entity));
   }
 
-  /**
-   * Score an entity's relevance to a search query
-   */
-  private scoreEntity(entity: Entity, query: string, fuzzy: boolean = false): number {
-    const queryLower = query.toLowerCase();
-    const tokens = this.tokenize(query);
-    let score = 0;
+  private unindexNames(entity: Entity): void {
+    entity.aliases?.forEach(alias => {
+      if (this.entitiesByAlias.get(alias) === entity) this.entitiesByAlias.delete(alias);
+    });
+    nameKeys(entity).forEach(key => GraphIndex.remove(this.entitiesByNameKey, key, entity));
+  }
 
-    // Name matches are highest value
-    const nameLower = entity.name.toLowerCase();
-    if (nameLower === queryLower) {
-      score += 100;  // Exact name match
-    } else if (nameLower.includes(queryLower)) {
-      score += 50;   // Partial name match (query is substring of name)
-    } else if (tokens.some(t => nameLower.includes(t))) {
-      score += 30;   // Token match in name
-    } else if (fuzzy && this.fuzzyMatch(entity.name, query)) {
-      score += 15;   // Fuzzy name match
-    }
+  // Reindex the names of an entity around a change to its name or aliases
+  private updateNames(entity: Entity, change: () => void): void {
+    this.unindexNames(entity);
+    change();
+    this.indexNames(entity);
+  }
 
-    // Type matches
-    const typeLower = entity.entityType.toLowerCase();
-    if (typeLower === queryLower) {
-      score += 40;   // Exact type match
-    } else if (tokens.some(t => typeLower.includes(t))) {
-      score += 20;   // Token match in type
-    }
+  private indexRelation(relation: Relation): void {
+    GraphIndex.append(this.outgoing, relation.from, relation);
+    GraphIndex.append(this.incoming, relation.to, relation);
+    GraphIndex.append(this.relationsByType, relation.relationType.toLowerCase(), relation);
+  }
 
-    // Observation matches (cumulative)
-    for (const obs of entity.observations) {
-      const obsLower = obs.toLowerCase();
-      if (obsLower.includes(queryLower)) {
-        score += 15;  // Full query match in observation
-      } else if (tokens.some(t => obsLower.includes(t))) {
-        score += 10;  // Token match in observation
-      } else if (fuzzy && this.fuzzyMatch(obs, query)) {
-        score += 5;   // Fuzzy match in observation
-      }
-    }
+  private unindexRelation(relation: Relation): void {
+    GraphIndex.remove(this.outgoing, relation.from, relation);
+    GraphIndex.remove(this.incoming, relation.to, relation);
+    GraphIndex.remove(this.relationsByType, relation.relationType.toLowerCase(), relation);
+  }
 
-    return score;
+  // Reindex the text of an entity around a change to it
+  private updateText(entity: Entity, change: () => void): void {
+    this.text?.remove(entity.name);
+    change();
+    this.text?.add(entity);
   }
 
-  // ==================== Core Data Methods ====================
+  private removeRelations(relations: Relation[]): void {
+    if (relations.length === 0) return;
+    new Set(relations).forEach(relation => {
+      this.unindexRelation(relation);
+      this.deletedRelations.add(relation);
+    });
+  }
 
-  private async loadGraph(): Promise<KnowledgeGraph> {
-    try {
-      const data = await fs.readFile(this.memoryFilePath, "utf-8");
-      const lines = data.split("\n").filter(line => line.trim() !== "");
-      return lines.reduce((graph: KnowledgeGraph, line) => {
-        const item = JSON.parse(line);
-        if (item.type === "entity") {
-          // Strip internal 'type' field to match Entity interface
-          const { type, ...entity } = item;
-          graph.entities.push(entity as Entity);
-        }
-        if (item.type === "relation") {
-          // Strip internal 'type' field to match Relation interface
-          const { type, ...relation } = item;
-          graph.relations.push(relation as Relation);
+  /**
+   * Apply an operation to the graph, keeping the lookups current
+   */
+  apply(operation: GraphOperation): void {
+    switch (operation.op) {
+      case 'add_entity': {
+        const entity = {
+          ...operation.entity,
+          observations: [...operation.entity.observations],
+          ...(operation.entity.observationMeta && { observationMeta: { ...operation.entity.observationMeta } }),
+        };
+        this.contents.entities.push(entity);
+        this.indexEntity(entity);
+        this.text?.add(entity);
+        break;
+      }
+      case 'delete_entity': {
+        const name = operation.name;
+        // Every entity of that name is indexed under its key, unless the name has none
+        const key = normalizeName(name);
+        const removed = (key === '' ? this.contents.entities : this.getEntitiesByNameKey(key))
+          .filter(e => e.name === name && !this.deletedEntities.has(e));
+        removed.forEach(entity => {
+          GraphIndex.remove(this.entitiesByType, entity.entityType.toLowerCase(), entity);
+          this.unindexNames(entity);
+          this.deletedEntities.add(entity);
+        });
+        this.entitiesByName.delete(name);
+        this.text?.remove(name);
+        // Cascade to every relation touching the entity
+        this.removeRelations([...this.getOutgoing(name), ...this.getIncoming(name)]);
+        break;
+      }
+      case 'rename_entity': {
+        const entity = this.getEntity(operation.name);
+        if (!entity || this.hasEntity(operation.newName)) break;
+        // Reindexed in graph order, so lookups list them as a reload would
+        const touched = new Set(relationsOf(this, operation.name));
+        const relations = this.contents.relations.filter(r => touched.has(r));
+        this.entitiesByName.delete(operation.name);
+        this.updateNames(entity, () => this.updateText(entity, () => renameEntityTo(entity, operation)));
+        this.entitiesByName.set(entity.name, entity);
+
+        const renamed = new Map<Relation, Relation>();
+        for (const relation of relations) {
+          const updated = renameEndpoints(relation, operation.name, operation.newName);
+          this.unindexRelation(relation);
+          this.indexRelation(updated);
+          renamed.set(relation, updated);
         }
-        return graph;
-      }, { entities: [], relations: [] });
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && (error as any).code === "ENOENT") {
-        return { entities: [], relations: [] };
+        this.contents.relations = this.contents.relations.map(r => renamed.get(r) ?? r);
+        break;
+      }
+      case 'set_aliases': {
+        const entity = this.getEntity(operation.name);
+        if (entity) this.updateNames(entity, () => setAliasesOf(entity, operation.aliases, operation.updatedAt));
+        break;
+      }
+      case 'set_archived': {
+        const entity = this.getEntity(operation.name);
+        if (entity) setArchivedOf(entity, operation.archivedAt, operation.updatedAt);
+        break;
+      }
+      case 'set_entity_type': {
+        const entity = this.getEntity(operation.name);
+        if (!entity) break;
+        GraphIndex.remove(this.entitiesByType, entity.entityType.toLowerCase(), entity);
+        this.updateText(entity, () => entity.entityType = operation.entityType);
+        if (operation.updatedAt) entity.updatedAt = operation.updatedAt;
+        GraphIndex.append(this.entitiesByType, entity.entityType.toLowerCase(), entity);
+        break;
+      }
+      case 'add_observations': {
+        const entity = this.getEntity(operation.entityName);
+        if (entity) this.updateText(entity, () => addObservationsTo(entity, operation));
+        break;
+      }
+      case 'delete_observations': {
+        const entity = this.getEntity(operation.entityName);
+        if (entity) this.updateText(entity, () => removeObservationsFrom(entity, operation));
+        break;
+      }
+      case 'set_observations': {
+        const entity = this.getEntity(operation.entityName);
+        if (entity) this.updateText(entity, () => setObservationsOf(entity, operation));
+        break;
+      }
+      case 'add_relation': {
+        const relation = { ...operation.relation };
+        this.contents.relations.push(relation);
+        this.indexRelation(relation);
+        break;
+      }
+      case 'update_relation': {
+        const existing = findRelation(this, operation.relation);
+        if (!existing) break;
+        const relation = { ...operation.relation };
+        this.unindexRelation(existing);
+        this.contents.relations = this.contents.relations.map(r => r === existing ? relation : r);
+        this.indexRelation(relation);
+        break;
+      }
+      case 'delete_relation': {
+        const { from, to, relationType } = operation.relation;
+        this.removeRelations(this.getOutgoing(from, relationType).filter(r => r.to === to));
+        break;
       }
-      throw error;
     }
   }
 
-  private async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    const lines = [
-      ...graph.entities.map(e => JSON.stringify({
-        type: "entity",
-        name: e.name,
-        entityType: e.entityType,
-        observations: e.observations
-      })),
-      ...graph.relations.map(r => JSON.stringify({
-        type: "relation",
-        from: r.from,
-        to: r.to,
-        relationType: r.relationType
-      })),
-    ];
-    await fs.writeFile(this.memoryFilePath, lines.join("\n"));
+  getEntity(name: string): Entity | undefined {
+    return this.entitiesByName.get(name);
   }
 
-  async createEntities(entities: Entity[]): Promise<Entity[]> {
-    const graph = await this.loadGraph();
-    const newEntities = entities.filter(e => !graph.entities.some(existingEntity => existingEntity.name === e.name));
-    graph.entities.push(...newEntities);
-    await this.saveGraph(graph);
-    return newEntities;
+  hasEntity(name: string): boolean {
+    return this.entitiesByName.has(name);
   }
 
-  async createRelations(relations: Relation[]): Promise<Relation[]> {
-    const graph = await this.loadGraph();
-    const newRelations = relations.filter(r => !graph.relations.some(existingRelation => 
-      existingRelation.from === r.from && 
-      existingRelation.to === r.to && 
-      existingRelation.relationType === r.relationType
-    ));
-    graph.relations.push(...newRelations);
-    await this.saveGraph(graph);
-    return newRelations;
+  getEntityByAlias(alias: string): Entity | undefined {
+    return this.entitiesByAlias.get(alias);
   }
 
-  async addObservations(observations: { entityName: string; contents: string[] }[]): Promise<{ entityName: string; addedObservations: string[] }[]> {
-    const graph = await this.loadGraph();
-    const results = observations.map(o => {
-      const entity = graph.entities.find(e => e.name === o.entityName);
-      if (!entity) {
-        throw new Error(`Entity with name ${o.entityName} not found`);
-      }
-      const newObservations = o.contents.filter(content => !entity.observations.includes(content));
-      entity.observations.push(...newObservations);
-      return { entityName: o.entityName, addedObservations: newObservations };
-    });
-    await this.saveGraph(graph);
-    return results;
+  getEntitiesByNameKey(key: string): Entity[] {
+    return this.entitiesByNameKey.get(key) ?? [];
   }
 
-  async deleteEntities(entityNames: string[]): Promise<void> {
-    const graph = await this.loadGraph();
-    graph.entities = graph.entities.filter(e => !entityNames.includes(e.name));
-    graph.relations = graph.relations.filter(r => !entityNames.includes(r.from) && !entityNames.includes(r.to));
-    await this.saveGraph(graph);
+  // The text index of the graph, built from its entities the first time it is asked for
+  textIndex(): TextIndex {
+    this.text ??= new TextIndex(this.graph.entities);
+    return this.text;
   }
 
-  async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<void> {
-    const graph = await this.loadGraph();
-    deletions.forEach(d => {
-      const entity = graph.entities.find(e => e.name === d.entityName);
-      if (entity) {
-        entity.observations = entity.observations.filter(o => !d.observations.includes(o));
-      }
-    });
-    await this.saveGraph(graph);
+  getEntitiesByType(entityType: string): Entity[] {
+    return this.entitiesByType.get(entityType.toLowerCase()) ?? [];
   }
 
-  async deleteRelations(relations: Relation[]): Promise<void> {
-    const graph = await this.loadGraph();
-    graph.relations = graph.relations.filter(r => !relations.some(delRelation => 
-      r.from === delRelation.from && 
-      r.to === delRelation.to && 
-      r.relationType === delRelation.relationType
-    ));
-    await this.saveGraph(graph);
+  getOutgoing(name: string, relationType?: string): Relation[] {
+    const relations = this.outgoing.get(name) ?? [];
+    return relationType ? relations.filter(r => r.relationType === relationType) : relations;
   }
 
-  async readGraph(): Promise<KnowledgeGraph> {
-    return this.loadGraph();
+  getIncoming(name: string, relationType?: string): Relation[] {
+    const relations = this.incoming.get(name) ?? [];
+    return relationType ? relations.filter(r => r.relationType === relationType) : relations;
   }
 
-  /**
-   * Advanced search with boolean operators, field prefixes, fuzzy matching, and relevance scoring.
-   *
-   * Query Syntax:
-   * - Multiple words: OR logic (matches any word)
-   * - +term: Required (must be present)
-   * - -term: Excluded (must NOT be present)
-   * - "phrase": Exact phrase match
-   * - name:value: Search only entity names
-   * - type:value: Search only entity types
-   * - obs:value: Search only observations
-   *
-   * Examples:
-   * - "auth module" - finds entities matching "auth" OR "module"
-   * - "+auth +security" - finds entities matching BOTH "auth" AND "security"
-   * - "auth -deprecated" - finds "auth" but excludes "deprecated"
-   * - "name:AuthService type:Module" - finds AuthService of type Module
-   */
-  async searchNodes(query: string, options: SearchOptions = {}): Promise<SearchResult> {
-    const graph = await this.loadGraph();
-    const { includeNeighbors = false, fuzzy = false, limit } = options;
+  getRelationsByType(relationType: string): Relation[] {
+    return this.relationsByType.get(relationType.toLowerCase()) ?? [];
+  }
 
-    // Handle empty query
-    if (!query.trim()) {
-      return { entities: [], relations: [], scores: [] };
-    }
+  hasRelation(relation: Relation): boolean {
+    return this.getOutgoing(relation.from, relation.relationType).some(r => r.to === relation.to);
+  }
 
-    // Parse the query for field-specific and boolean operators
-    const fieldQuery = this.parseFieldQuery(query);
+  listEntities(): Entity[] {
+    return this.graph.entities;
+  }
 
-    // Check if query has any parseable content
-    const hasFieldQueries = fieldQuery.name || fieldQuery.type || fieldQuery.obs;
-    const hasAllQuery = fieldQuery.all && (
-      fieldQuery.all.required.length > 0 ||
-      fieldQuery.all.optional.length > 0 ||
-      fieldQuery.all.phrases.length > 0
-    );
+  listRelations(): Relation[] {
+    return this.graph.relations;
+  }
+}
 
-    if (!hasFieldQueries && !hasAllQuery) {
-      return { entities: [], relations: [], scores: [] };
-    }
+// Callback for GraphStorage.mutate. Changes must go through `apply`; the view
+// reflects every operation applied so far within the same mutation.
+export type MutationCallback<T> = (view: GraphView, apply: (operation: GraphOperation) => void) => T;
+
+/**
+ * A persistence backend for the knowledge graph. Graphs and entities returned by
+ * a backend may be shared with its cache and must be treated as read-only.
+ */
+export interface GraphStorage {
+  // Load the complete graph
+  loadGraph(): Promise<KnowledgeGraph>;
+  // Indexed lookups over the current contents
+  view(): Promise<GraphView>;
+  // Inverted index over the text of the current entities, for searches
+  textIndex(): Promise<TextIndex>;
+  // Run a read-modify-write cycle with exclusive access and persist its operations.
+  // beforeCommit runs while access is still exclusive and nothing is persisted
+  // yet; throwing from it abandons the changes.
+  mutate<T>(fn: MutationCallback<T>, beforeCommit?: (result: T) => Promise<void>): Promise<T>;
+  // Reclaim space used by incremental writes
+  compact(): Promise<void>;
+  // Report (and optionally remove) stored data that could not be loaded
+  repair?(rewrite: boolean): Promise<RepairReport>;
+  close(): Promise<void>;
+}
 
-    // Step 1: Filter entities by query match
-    let matchedEntities = graph.entities.filter(entity => {
-      // Check field-specific matching
-      if (!this.entityMatchesFieldQuery(entity, fieldQuery)) {
-        // If standard matching fails and fuzzy is enabled, try fuzzy matching
-        if (fuzzy && fieldQuery.all) {
-          const allTokens = [
-            ...fieldQuery.all.required,
-            ...fieldQuery.all.optional,
-            ...fieldQuery.all.phrases
-          ];
-          const allText = `${entity.name} ${entity.entityType} ${entity.observations.join(' ')}`;
-          return allTokens.some(token => this.fuzzyMatch(allText, token));
-        }
-        return false;
-      }
-      return true;
-    });
+// A line of the memory file that was skipped while loading
+export interface QuarantinedLine {
+  line: number;      // 1-based line number in the memory file
+  content: string;
+  reason: string;
+}
 
-    // Step 2: Score and sort entities
-    const rawQuery = query.replace(/(name|type|obs):\S+/gi, '').trim();
-    const scored = matchedEntities.map(entity => ({
-      entity,
-      score: this.scoreEntity(entity, rawQuery || query, fuzzy)
-    })).sort((a, b) => b.score - a.score);
+// Result of checking a memory file for invalid lines
+export interface RepairReport {
+  filePath: string;
+  quarantined: QuarantinedLine[];
+  rewritten: boolean;      // Whether a cleaned file was written
+  backupPath?: string;     // Copy of the original file, when rewritten
+  [key: string]: unknown;
+}
 
-    // Step 3: Apply limit if specified
-    const limitedScored = limit ? scored.slice(0, limit) : scored;
-    matchedEntities = limitedScored.map(s => s.entity);
-    let matchedEntityNames = new Set(matchedEntities.map(e => e.name));
+export type StorageBackend = 'jsonl' | 'sqlite';
 
-    // Step 4: If includeNeighbors, expand to 1-hop connected entities
-    if (includeNeighbors && matchedEntityNames.size > 0) {
-      const neighborNames = new Set<string>();
-      for (const rel of graph.relations) {
-        if (matchedEntityNames.has(rel.from)) {
-          neighborNames.add(rel.to);
-        }
-        if (matchedEntityNames.has(rel.to)) {
-          neighborNames.add(rel.from);
-        }
-      }
-      // Add neighbor entities to results
-      Array.from(neighborNames).forEach(name => {
-        if (!matchedEntityNames.has(name)) {
-          const neighborEntity = graph.entities.find(e => e.name === name);
-          if (neighborEntity) {
-            matchedEntities.push(neighborEntity);
-            matchedEntityNames.add(name);
-          }
-        }
-      });
-    }
+// Options shared by all storage backends; backends ignore what does not apply to them
+export interface GraphStorageOptions {
+  backend?: StorageBackend;
+  lock?: FileLockOptions;
+  journal?: boolean;                     // Append operations instead of rewriting the file
+  journalCompactionThreshold?: number;   // Journal entries allowed before folding into a snapshot
+  readOnly?: boolean;                    // Refuse writes, including format migrations
+}
 
-    // Step 5: Get relations - include ALL relations where at least one endpoint is in result set
-    const filteredRelations = graph.relations.filter(r =>
-      matchedEntityNames.has(r.from) || matchedEntityNames.has(r.to)
-    );
+const DEFAULT_JOURNAL_COMPACTION_THRESHOLD = 1000;
 
-    return {
-      entities: matchedEntities,
-      relations: filteredRelations,
-      scores: limitedScored.map(s => ({ name: s.entity.name, score: s.score }))
-    };
-  }
+// ==================== Text Index ====================
 
-  async openNodes(names: string[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Filter entities
-    const filteredEntities = graph.entities.filter(e => names.includes(e.name));
-  
-    // Create a Set of filtered entity names for quick lookup
-    const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
-  
-    // Filter relations to only include those between filtered entities
-    const filteredRelations = graph.relations.filter(r => 
-      filteredEntityNames.has(r.from) && filteredEntityNames.has(r.to)
-    );
-  
-    const filteredGraph: KnowledgeGraph = {
-      entities: filteredEntities,
-      relations: filteredRelations,
-    };
+// The parts of an entity a search looks terms up in
+export type TextField = 'name' | 'type' | 'obs';
 
-    return filteredGraph;
-  }
+const TEXT_FIELDS: TextField[] = ['name', 'type', 'obs'];
 
-  // ==================== Graph Traversal Methods ====================
+// How much more a term counts in a name or type than in an observation
+const FIELD_BOOSTS: Record<TextField, number> = { name: 3, type: 2, obs: 1 };
 
-  /**
-   * Get all entities directly connected to a given entity
-   */
-  async getNeighbors(
-    entityName: string,
-    options?: { direction?: 'incoming' | 'outgoing' | 'both'; relationType?: string }
-  ): Promise<NeighborResult[]> {
-    const graph = await this.loadGraph();
-    const { direction = 'both', relationType } = options || {};
-    const results: NeighborResult[] = [];
-    const entityMap = new Map(graph.entities.map(e => [e.name, e]));
+// BM25 parameters: how quickly repeated terms stop adding to a score, and how
+// strongly a long field is discounted against the average length of that field
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
 
-    // Check if the source entity exists
-    if (!entityMap.has(entityName)) {
-      return [];
-    }
+// How much a term that merely contains the queried term ("authservice" for
+// "auth") and a fuzzy match count, relative to the queried term itself
+const PARTIAL_TERM_WEIGHT = 0.5;
+const FUZZY_TERM_WEIGHT = 0.25;
+
+// A term of a search, and the fields it is looked up in
+export interface TextQueryTerm {
+  term: string;
+  fields: TextField[];
+}
 
-    for (const rel of graph.relations) {
-      if (relationType && rel.relationType !== relationType) continue;
+// Whether two terms are close enough to count as a fuzzy match
+export type TermSimilarity = (term: string, queried: string) => boolean;
 
-      if ((direction === 'both' || direction === 'outgoing') && rel.from === entityName) {
-        const targetEntity = entityMap.get(rel.to);
-        if (targetEntity) {
-          results.push({ entity: targetEntity, relation: rel, direction: 'outgoing' });
-        }
-      }
+/**
+ * Split text into the terms the index holds: lowercase runs of letters and digits.
+ */
+function textTerms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
 
-      if ((direction === 'both' || direction === 'incoming') && rel.to === entityName) {
-        const sourceEntity = entityMap.get(rel.from);
-        if (sourceEntity) {
-          results.push({ entity: sourceEntity, relation: rel, direction: 'incoming' });
-        }
-      }
-    }
+// What the index recorded for an entity, so it can be taken out again
+interface IndexedText {
+  terms: Record<TextField, Set<string>>;
+  lengths: Record<TextField, number>;
+  observations: Set<string>[];  // Distinct terms of each observation
+}
 
-    return results;
+/**
+ * An inverted index over the names, types and observations of entities, with
+ * the document frequencies and field lengths BM25 scoring needs. Searches look
+ * query terms up here to find their candidates instead of scanning every
+ * observation; scores are computed from the entity a search returns, so they
+ * reflect only the observations visible to it.
+ */
+export class TextIndex {
+  private documents = new Map<string, IndexedText>();
+  private postings: Record<TextField, Map<string, Set<string>>> = { name: new Map(), type: new Map(), obs: new Map() };
+  private lengths: Record<TextField, number> = { name: 0, type: 0, obs: 0 };
+  private observationFrequency = new Map<string, number>();  // Observations containing each term
+  private observationCount = 0;
+  // Every suffix of every term, sorted by suffix and term, so the terms
+  // containing a queried term are a range found by binary search. Built on the
+  // first lookup, then updated as terms are added and removed.
+  private suffixes?: { suffix: string; term: string }[];
+  private parts?: TextIndex[];  // Set on an index combining others
+
+  constructor(entities: Entity[] = []) {
+    entities.forEach(entity => this.add(entity));
   }
 
   /**
-   * Find shortest path between two entities using BFS
+   * An index over several graphs, made of their own indexes, which their storage
+   * keeps current. An entity stored in more than one graph counts once per graph
+   * in the term statistics.
    */
-  async findPath(
-    fromEntity: string,
-    toEntity: string,
-    maxDepth: number = 10
-  ): Promise<PathResult | null> {
-    const graph = await this.loadGraph();
-    const entityMap = new Map(graph.entities.map(e => [e.name, e]));
+  static combine(parts: TextIndex[]): TextIndex {
+    const combined = new TextIndex();
+    combined.parts = parts;
+    return combined;
+  }
 
-    if (!entityMap.has(fromEntity) || !entityMap.has(toEntity)) {
-      return null;
-    }
+  // Inverse document frequency of a term found in `frequency` of `count` documents
+  private static idf(frequency: number, count: number): number {
+    return Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5));
+  }
 
-    // Same entity - trivial path
-    if (fromEntity === toEntity) {
-      return {
-        path: [entityMap.get(fromEntity)!],
-        relations: [],
-        length: 0
-      };
+  // BM25 saturation of a (length-normalized) term frequency
+  private static saturate(frequency: number): number {
+    return frequency * (BM25_K1 + 1) / (frequency + BM25_K1);
+  }
+
+  private static round(score: number): number {
+    return Math.round(score * 1000) / 1000;
+  }
+
+  // How much the terms of a text count towards a queried term
+  private static weigh(terms: string[], queried: string, similar?: TermSimilarity): number {
+    let weight = 0;
+    for (const term of terms) {
+      if (term === queried) {
+        weight += 1;
+      } else if (term.includes(queried)) {
+        weight += PARTIAL_TERM_WEIGHT;
+      } else if (similar?.(term, queried)) {
+        weight += FUZZY_TERM_WEIGHT;
+      }
     }
+    return weight;
+  }
 
-    // Build adjacency list (bidirectional for path finding)
-    const adjacency = new Map<string, { neighbor: string; relation: Relation }[]>();
-    for (const entity of graph.entities) {
-      adjacency.set(entity.name, []);
+  // Position of the first suffix entry that does not sort before (suffix, term)
+  private static suffixPosition(suffixes: { suffix: string; term: string }[], suffix: string, term: string = ''): number {
+    let low = 0;
+    let high = suffixes.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const entry = suffixes[middle];
+      if (entry.suffix < suffix || (entry.suffix === suffix && entry.term < term)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
     }
-    for (const rel of graph.relations) {
-      adjacency.get(rel.from)?.push({ neighbor: rel.to, relation: rel });
-      adjacency.get(rel.to)?.push({ neighbor: rel.from, relation: rel });
+    return low;
+  }
+
+  // Insert or remove the suffixes of a term that became indexed or is no longer
+  private updateSuffixes(term: string, indexed: boolean): void {
+    if (!this.suffixes) return;
+    for (let i = 0; i < term.length; i++) {
+      const suffix = term.slice(i);
+      const position = TextIndex.suffixPosition(this.suffixes, suffix, term);
+      if (indexed) {
+        this.suffixes.splice(position, 0, { suffix, term });
+      } else if (this.suffixes[position]?.suffix === suffix && this.suffixes[position].term === term) {
+        this.suffixes.splice(position, 1);
+      }
     }
+  }
 
-    // BFS
-    const visited = new Set<string>();
-    const queue: { name: string; path: string[]; relations: Relation[] }[] = [
-      { name: fromEntity, path: [fromEntity], relations: [] }
-    ];
+  // Whether a field other than `field` holds the term
+  private indexedElsewhere(term: string, field: TextField): boolean {
+    return TEXT_FIELDS.some(other => other !== field && this.postings[other].has(term));
+  }
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
+  // Index an entity; like GraphIndex lookups, the first entity with a name wins
+  add(entity: Entity): void {
+    if (this.documents.has(entity.name)) return;
+    const observations = entity.observations.map(textTerms);
+    const fields: Record<TextField, string[]> = {
+      name: textTerms(entity.name),
+      type: textTerms(entity.entityType),
+      obs: observations.flat(),
+    };
+    const indexed: IndexedText = {
+      terms: { name: new Set(fields.name), type: new Set(fields.type), obs: new Set(fields.obs) },
+      lengths: { name: fields.name.length, type: fields.type.length, obs: fields.obs.length },
+      observations: observations.map(terms => new Set(terms)),
+    };
 
-      if (current.name === toEntity) {
-        return {
-          path: current.path.map(name => entityMap.get(name)!),
-          relations: current.relations,
-          length: current.path.length - 1
-        };
+    for (const field of TEXT_FIELDS) {
+      for (const term of indexed.terms[field]) {
+        const names = this.postings[field].get(term);
+        if (names) {
+          names.add(entity.name);
+        } else {
+          this.postings[field].set(term, new Set([entity.name]));
+          if (!this.indexedElsewhere(term, field)) this.updateSuffixes(term, true);
+        }
       }
+      this.lengths[field] += indexed.lengths[field];
+    }
+    for (const terms of indexed.observations) {
+      terms.forEach(term => this.observationFrequency.set(term, (this.observationFrequency.get(term) ?? 0) + 1));
+    }
+    this.observationCount += indexed.observations.length;
+    this.documents.set(entity.name, indexed);
+  }
 
-      if (current.path.length > maxDepth) continue;
-      if (visited.has(current.name)) continue;
-      visited.add(current.name);
-
-      for (const { neighbor, relation } of adjacency.get(current.name) || []) {
-        if (!visited.has(neighbor)) {
-          queue.push({
-            name: neighbor,
-            path: [...current.path, neighbor],
-            relations: [...current.relations, relation]
-          });
+  remove(name: string): void {
+    const indexed = this.documents.get(name);
+    if (!indexed) return;
+    for (const field of TEXT_FIELDS) {
+      for (const term of indexed.terms[field]) {
+        const names = this.postings[field].get(term)!;
+        names.delete(name);
+        if (names.size === 0) {
+          this.postings[field].delete(term);
+          if (!this.indexedElsewhere(term, field)) this.updateSuffixes(term, false);
         }
       }
+      this.lengths[field] -= indexed.lengths[field];
     }
+    for (const terms of indexed.observations) {
+      for (const term of terms) {
+        const frequency = this.observationFrequency.get(term)! - 1;
+        if (frequency > 0) {
+          this.observationFrequency.set(term, frequency);
+        } else {
+          this.observationFrequency.delete(term);
+        }
+      }
+    }
+    this.observationCount -= indexed.observations.length;
+    this.documents.delete(name);
+  }
 
-    return null;  // No path found
+  // Indexed terms that contain `queried`
+  private termsContaining(queried: string): Set<string> {
+    if (!this.suffixes) {
+      const terms = new Set(TEXT_FIELDS.flatMap(field => [...this.postings[field].keys()]));
+      this.suffixes = [...terms]
+        .flatMap(term => Array.from({ length: term.length }, (_, i) => ({ suffix: term.slice(i), term })))
+        .sort((a, b) => a.suffix < b.suffix ? -1 : a.suffix > b.suffix ? 1 : a.term < b.term ? -1 : a.term > b.term ? 1 : 0);
+    }
+    // Suffixes starting with the queried term follow the first one not sorting before it
+    const terms = new Set<string>();
+    for (let i = TextIndex.suffixPosition(this.suffixes, queried); i < this.suffixes.length && this.suffixes[i].suffix.startsWith(queried); i++) {
+      terms.add(this.suffixes[i].term);
+    }
+    return terms;
   }
 
   /**
-   * Extract N-hop neighborhood around seed entities
+   * Names of the entities with a term containing `queried` in one of the fields.
+   * Matching within terms keeps the substring semantics of search queries.
    */
-  async getSubgraph(entityNames: string[], depth: number = 1): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    const entitySet = new Set(entityNames);
-
-    // Expand to N-hop neighbors
-    for (let i = 0; i < depth; i++) {
-      const newNeighbors = new Set<string>();
-      for (const rel of graph.relations) {
-        if (entitySet.has(rel.from)) newNeighbors.add(rel.to);
-        if (entitySet.has(rel.to)) newNeighbors.add(rel.from);
+  entitiesContaining(queried: string, fields: TextField[] = TEXT_FIELDS): Set<string> {
+    const names = new Set<string>();
+    if (this.parts) {
+      this.parts.forEach(part => part.entitiesContaining(queried, fields).forEach(name => names.add(name)));
+      return names;
+    }
+    for (const term of this.termsContaining(queried)) {
+      for (const field of fields) {
+        this.postings[field].get(term)?.forEach(name => names.add(name));
       }
-      Array.from(newNeighbors).forEach(name => {
-        entitySet.add(name);
-      });
     }
+    return names;
+  }
 
-    const filteredEntities = graph.entities.filter(e => entitySet.has(e.name));
-    const filteredRelations = graph.relations.filter(r =>
-      entitySet.has(r.from) && entitySet.has(r.to)
-    );
+  // Statistics of the indexed entities, summed over the parts of a combined index
+  private documentCount(): number {
+    return this.parts ? this.parts.reduce((sum, part) => sum + part.documentCount(), 0) : this.documents.size;
+  }
 
-    return { entities: filteredEntities, relations: filteredRelations };
+  private fieldLength(field: TextField): number {
+    return this.parts ? this.parts.reduce((sum, part) => sum + part.fieldLength(field), 0) : this.lengths[field];
   }
 
-  // ==================== Filtering Methods ====================
+  private observationTotal(): number {
+    return this.parts ? this.parts.reduce((sum, part) => sum + part.observationTotal(), 0) : this.observationCount;
+  }
 
-  /**
-   * Get all entities of a specific type
-   */
-  async filterByType(entityType: string): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    const filteredEntities = graph.entities.filter(e =>
-      e.entityType.toLowerCase() === entityType.toLowerCase()
-    );
-    const entityNames = new Set(filteredEntities.map(e => e.name));
-    const filteredRelations = graph.relations.filter(r =>
-      entityNames.has(r.from) && entityNames.has(r.to)
-    );
-    return { entities: filteredEntities, relations: filteredRelations };
+  // Observations with a term containing `queried`, counting each of their matching terms
+  private observationsContaining(queried: string): number {
+    if (this.parts) {
+      return this.parts.reduce((sum, part) => sum + part.observationsContaining(queried), 0);
+    }
+    let frequency = 0;
+    for (const term of this.termsContaining(queried)) {
+      frequency += this.observationFrequency.get(term) ?? 0;
+    }
+    return frequency;
   }
 
   /**
-   * Filter relations by type, source, or target
+   * Score entities against a query with BM25F: the boosted, length-normalized
+   * frequencies of a term across fields are combined before saturating, and
+   * weighted by how rare the term is among all indexed entities.
    */
-  async filterRelations(options: {
-    relationType?: string;
-    fromEntity?: string;
-    toEntity?: string;
-  }): Promise<{ relations: Relation[]; entities: Entity[] }> {
-    const graph = await this.loadGraph();
-    const filteredRelations = graph.relations.filter(r => {
-      if (options.relationType && r.relationType.toLowerCase() !== options.relationType.toLowerCase()) return false;
-      if (options.fromEntity && r.from !== options.fromEntity) return false;
-      if (options.toEntity && r.to !== options.toEntity) return false;
-      return true;
-    });
-
-    // Get all entities involved in the filtered relations
-    const entityNames = new Set<string>();
-    for (const rel of filteredRelations) {
-      entityNames.add(rel.from);
-      entityNames.add(rel.to);
-    }
-    const entities = graph.entities.filter(e => entityNames.has(e.name));
-
-    return { relations: filteredRelations, entities };
+  entityScorer(query: TextQueryTerm[], similar?: TermSimilarity): (entity: Entity) => number {
+    const count = this.documentCount();
+    const idf = query.map(({ term }) => TextIndex.idf(this.entitiesContaining(term).size, count));
+    const averageLength = (field: TextField) => this.fieldLength(field) / count || 1;
+
+    return entity => {
+      const fields: Record<TextField, string[]> = {
+        name: textTerms(entity.name),
+        type: textTerms(entity.entityType),
+        obs: entity.observations.flatMap(textTerms),
+      };
+      let score = 0;
+      query.forEach(({ term, fields: searched }, i) => {
+        let frequency = 0;
+        for (const field of searched) {
+          const weight = TextIndex.weigh(fields[field], term, similar);
+          if (weight === 0) continue;
+          const norm = 1 - BM25_B + BM25_B * fields[field].length / averageLength(field);
+          frequency += FIELD_BOOSTS[field] * weight / norm;
+        }
+        if (frequency > 0) score += idf[i] * TextIndex.saturate(frequency);
+      });
+      return TextIndex.round(score);
+    };
   }
 
   /**
-   * Find entities with observations matching a pattern
+   * Score individual observations against query terms with BM25, each
+   * observation being a document of its own.
    */
-  async filterByObservation(pattern: string): Promise<Entity[]> {
-    const graph = await this.loadGraph();
-
-    // Common preset patterns
-    const presetPatterns: Record<string, RegExp> = {
-      'dated': /^\[\d{4}-\d{2}-\d{2}\]/,           // [2025-12-16] observations
-      'techdebt': /tech\s*debt|TODO|FIXME|HACK/i,  // Tech debt markers
-      'deprecated': /deprecated/i,                   // Deprecated items
-      'purpose': /purpose:/i,                        // Purpose statements
-      'quirk': /quirk:/i,                            // Quirk notes
+  observationScorer(terms: string[], similar?: TermSimilarity): (observation: string) => number {
+    const count = this.observationTotal();
+    const idf = terms.map(queried => TextIndex.idf(Math.min(this.observationsContaining(queried), count), count));
+    const averageLength = this.fieldLength('obs') / count || 1;
+
+    return observation => {
+      const observationTerms = textTerms(observation);
+      const norm = 1 - BM25_B + BM25_B * observationTerms.length / averageLength;
+      let score = 0;
+      terms.forEach((term, i) => {
+        const weight = TextIndex.weigh(observationTerms, term, similar);
+        if (weight > 0) score += idf[i] * TextIndex.saturate(weight / norm);
+      });
+      return TextIndex.round(score);
     };
+  }
+}
 
-    // Use preset pattern if available, otherwise treat as regex
-    const regex = presetPatterns[pattern.toLowerCase()] || new RegExp(pattern, 'i');
+// ==================== File Format Versioning ====================
 
-    return graph.entities.filter(e =>
-      e.observations.some(obs => regex.test(obs))
-    );
+// Version written to the header line of JSONL memory files. Files without a
+// header predate versioning and are treated as version 1.
+export const MEMORY_FORMAT_VERSION = 3;
+
+// A raw line of a JSONL memory file, before it is interpreted
+export type MemoryRecord = { type?: string; [key: string]: unknown };
+
+// Upgrades the records of a memory file from one format version to the next
+interface FormatMigration {
+  from: number;
+  description: string;
+  migrate(records: MemoryRecord[]): MemoryRecord[];
+}
+
+// Ordered registry of migrations; add an entry here whenever the line format
+// changes and bump MEMORY_FORMAT_VERSION.
+const FORMAT_MIGRATIONS: FormatMigration[] = [
+  {
+    from: 1,
+    description: 'Add format version header',
+    migrate: records => records,
+  },
+  {
+    // Version 2 writers drop fields they do not know, so they must not rewrite
+    // files carrying timestamps; later writers keep unknown fields.
+    from: 2,
+    description: 'Allow timestamps, provenance and observation metadata',
+    migrate: records => records,
+  },
+];
+
+// ==================== Record Validation ====================
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateEntity(value: unknown): string | undefined {
+  if (!isObject(value)) return 'entity must be an object';
+  if (!isString(value.name) || value.name.trim() === '') return 'entity is missing a name';
+  if (!isString(value.entityType)) return 'entity is missing an entityType';
+  if (!isStringArray(value.observations)) return 'entity observations must be an array of strings';
+  if (value.observationMeta !== undefined && !isObject(value.observationMeta)) return 'entity observationMeta must be an object';
+  if (value.aliases !== undefined && !isStringArray(value.aliases)) return 'entity aliases must be an array of strings';
+  return undefined;
+}
+
+function validateRelation(value: unknown): string | undefined {
+  if (!isObject(value)) return 'relation must be an object';
+  if (!isString(value.from) || !isString(value.to) || !isString(value.relationType)) {
+    return 'relation requires string from, to and relationType fields';
+  }
+  if (value.properties !== undefined && !isObject(value.properties)) return 'relation properties must be an object';
+  return undefined;
+}
+
+function validateOperation(record: MemoryRecord): string | undefined {
+  switch (record.op) {
+    case 'add_entity':
+      return validateEntity(record.entity);
+    case 'delete_entity':
+      return isString(record.name) ? undefined : 'delete_entity requires a name';
+    case 'rename_entity':
+      if (record.aliases !== undefined && !isStringArray(record.aliases)) return 'rename_entity aliases must be an array of strings';
+      return isString(record.name) && isString(record.newName) ? undefined : 'rename_entity requires a name and a newName';
+    case 'set_entity_type':
+      return isString(record.name) && isString(record.entityType) ? undefined : 'set_entity_type requires a name and an entityType';
+    case 'set_aliases':
+      return isString(record.name) && isStringArray(record.aliases) ? undefined : 'set_aliases requires a name and an array of aliases';
+    case 'set_archived':
+      return isString(record.name) && (record.archivedAt === undefined || isString(record.archivedAt))
+        ? undefined
+        : 'set_archived requires a name and an optional archivedAt date';
+    case 'add_observations':
+    case 'delete_observations':
+    case 'set_observations':
+      if (record.meta !== undefined && !isObject(record.meta)) return `${record.op} meta must be an object`;
+      return isString(record.entityName) && isStringArray(record.observations)
+        ? undefined
+        : `${record.op} requires an entityName and an array of observations`;
+    case 'add_relation':
+    case 'update_relation':
+    case 'delete_relation':
+      return validateRelation(record.relation);
+    default:
+      return `unknown journal operation ${JSON.stringify(record.op)}`;
   }
+}
 
-  // ==================== Observation-Level Search ====================
+/**
+ * Check that a record of the current format has the shape its type promises.
+ * Returns the reason the record cannot be loaded, or undefined if it is valid.
+ */
+function validateRecord(record: MemoryRecord): string | undefined {
+  switch (record.type) {
+    case 'entity':
+      return validateEntity(record);
+    case 'relation':
+      return validateRelation(record);
+    case 'op':
+      return validateOperation(record);
+    case 'meta':
+      return 'format header is only allowed on the first line';
+    default:
+      return record.type === undefined ? 'missing "type" field' : `unknown record type ${JSON.stringify(record.type)}`;
+  }
+}
+
+function formatHeader(): string {
+  return JSON.stringify({ type: "meta", formatVersion: MEMORY_FORMAT_VERSION });
+}
+
+/**
+ * Lines of a JSONL memory file holding the given graph, starting with the header.
+ */
+function serializeGraph(graph: KnowledgeGraph): string[] {
+  // Fields are copied as a whole, so data added by newer versions survives a rewrite
+  return [
+    formatHeader(),
+    ...graph.entities.map(e => JSON.stringify({ type: "entity", ...e })),
+    ...graph.relations.map(r => JSON.stringify({ type: "relation", ...r })),
+  ];
+}
+
+/**
+ * Upgrade records from the given version to MEMORY_FORMAT_VERSION.
+ */
+function migrateRecords(records: MemoryRecord[], fromVersion: number): MemoryRecord[] {
+  let migrated = records;
+  for (let version = fromVersion; version < MEMORY_FORMAT_VERSION; version++) {
+    const migration = FORMAT_MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration registered from memory format version ${version}`);
+    }
+    migrated = migration.migrate(migrated);
+  }
+  return migrated;
+}
+
+// Identity of the memory file contents as last seen by this process. A change in
+// any field means the file was rewritten or appended to by someone else.
+interface FileStamp {
+  mtimeMs: number;
+  size: number;
+  ino: number;
+}
+
+/**
+ * Storage in a JSONL file: one entity or relation per line, optionally followed
+ * by journal entries. The parsed graph is cached until the file changes.
+ */
+export class JsonlGraphStorage implements GraphStorage {
+  // Number of journal entries currently stored after the snapshot section of the file
+  private journalLength = 0;
+
+  // Size of the file without a journal entry that the last parse found cut off
+  private truncatedSize?: number;
+
+  // Parsed graph kept between calls; reused while the file stamp is unchanged
+  private cache?: { index: GraphIndex; stamp: FileStamp | null };
+
+  // Lines skipped by the last parse. They are carried over when the file is
+  // rewritten, so nothing is lost until repair() removes them explicitly.
+  private quarantined: QuarantinedLine[] = [];
+
+  constructor(readonly filePath: string, private options: GraphStorageOptions = {}) {}
+
+  private async statFile(): Promise<FileStamp | null> {
+    try {
+      const stat = await fs.stat(this.filePath);
+      return { mtimeMs: stat.mtimeMs, size: stat.size, ino: stat.ino };
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return null;
+      throw error;
+    }
+  }
+
+  private static sameStamp(a: FileStamp | null, b: FileStamp | null): boolean {
+    if (a === null || b === null) return a === b;
+    return a.mtimeMs === b.mtimeMs && a.size === b.size && a.ino === b.ino;
+  }
 
   /**
-   * Score an individual observation's relevance to a search query
+   * Return the indexed graph, re-parsing the file only when it changed since the last load.
+   * Pass locked when the caller already holds the file lock.
    */
-  private scoreObservation(observation: string, query: string, fuzzy: boolean = false): number {
-    const queryLower = query.toLowerCase();
-    const obsLower = observation.toLowerCase();
-    const tokens = this.tokenize(query);
-    let score = 0;
+  private async load(locked = false): Promise<GraphIndex> {
+    const stamp = await this.statFile();
+    if (this.cache && JsonlGraphStorage.sameStamp(this.cache.stamp, stamp)) {
+      return this.cache.index;
+    }
+    const index = await this.parse(locked);
+    // A migration rewrites the file, so take the stamp again afterwards
+    this.cache = { index, stamp: await this.statFile() };
+    return index;
+  }
 
-    // Exact query match in observation
-    if (obsLower.includes(queryLower)) {
-      score += 100;
+  /**
+   * Read the file's records and the format version declared by its header line.
+   * Lines that are not valid JSON objects are returned separately instead of failing.
+   */
+  private async readRecords(): Promise<{
+    version: number;
+    entries: { line: number; content: string; record: MemoryRecord }[];
+    unparseable: QuarantinedLine[];
+    truncated?: { line: number; size: number };  // A torn final journal entry, and the file size without it
+  }> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return { version: MEMORY_FORMAT_VERSION, entries: [], unparseable: [] };
+      throw error;
     }
 
-    // Token matches (cumulative)
-    for (const token of tokens) {
-      if (obsLower.includes(token)) {
-        score += 20;
-      } else if (fuzzy && this.fuzzyMatch(observation, token)) {
-        score += 10;
+    const entries: { line: number; content: string; record: MemoryRecord }[] = [];
+    const unparseable: QuarantinedLine[] = [];
+    let truncated: { line: number; size: number } | undefined;
+    const lines = data.split("\n");
+    const last = lines.reduce((found, content, i) => content.trim() !== "" ? i : found, -1);
+    lines.forEach((content, i) => {
+      if (content.trim() === "") return;
+      // A crash while appending to the journal can only cut off its final entry,
+      // whose mutation was never acknowledged; it is dropped, not quarantined
+      if (i === last && content.startsWith('{"type":"op"')) {
+        try {
+          JSON.parse(content);
+        } catch {
+          truncated = { line: i + 1, size: Buffer.byteLength(lines.slice(0, i).join("\n").replace(/\n+$/, "")) };
+          return;
+        }
+      }
+      try {
+        const record = JSON.parse(content);
+        if (isObject(record)) {
+          entries.push({ line: i + 1, content, record });
+        } else {
+          unparseable.push({ line: i + 1, content, reason: 'line is not a JSON object' });
+        }
+      } catch {
+        unparseable.push({ line: i + 1, content, reason: 'line is not valid JSON' });
+      }
+    });
+    if (entries.length === 0 && unparseable.length === 0) {
+      return { version: MEMORY_FORMAT_VERSION, entries, unparseable, truncated };
+    }
+
+    // Only the first non-empty line can be the header
+    const first = entries[0];
+    if (first && first.record.type === "meta" && !unparseable.some(u => u.line < first.line)) {
+      return { version: Number(first.record.formatVersion) || 1, entries: entries.slice(1), unparseable, truncated };
+    }
+    return { version: 1, entries, unparseable, truncated };
+  }
+
+  /**
+   * Upgrade an older file to the current format, keeping the original as a
+   * backup (<file>.v<version>.bak). Must be called while holding the file lock.
+   */
+  private async migrate(): Promise<void> {
+    const { version, entries, unparseable } = await this.readRecords();
+    if (version >= MEMORY_FORMAT_VERSION) return;  // Migrated by another process meanwhile
+
+    const backupPath = `${this.filePath}.v${version}.bak`;
+    console.error(`DETECTED: Memory file ${this.filePath} uses format version ${version}, migrating to version ${MEMORY_FORMAT_VERSION}`);
+    await fs.copyFile(this.filePath, backupPath);
+    const migrated = migrateRecords(entries.map(e => e.record), version);
+    await writeFileAtomic(this.filePath, [
+      formatHeader(),
+      ...migrated.map(r => JSON.stringify(r)),
+      // Unreadable lines are kept verbatim for repair_memory to report
+      ...unparseable.map(u => u.content),
+    ].join("\n"));
+    console.error(`COMPLETED: Migrated memory file to format version ${MEMORY_FORMAT_VERSION} (backup: ${backupPath})`);
+  }
+
+  private async parse(locked: boolean): Promise<GraphIndex> {
+    const { version, entries, unparseable, truncated } = await this.readRecords();
+    if (version > MEMORY_FORMAT_VERSION) {
+      throw new Error(
+        `Memory file ${this.filePath} uses format version ${version}, but this server only supports ` +
+        `versions up to ${MEMORY_FORMAT_VERSION}. Please upgrade better-memory-mcp.`
+      );
+    }
+    let records = entries;
+    if (version < MEMORY_FORMAT_VERSION) {
+      if (!this.options.readOnly) {
+        if (locked) {
+          await this.migrate();
+        } else {
+          await withFileLock(this.filePath, () => this.migrate(), this.options.lock);
+        }
+        return this.parse(locked);
+      }
+      // Read-only files are only upgraded in memory
+      records = migrateRecords(entries.map(e => e.record), version)
+        .map((record, i) => ({ line: entries[i]?.line ?? 0, content: JSON.stringify(record), record }));
+    }
+
+    const index = new GraphIndex();
+    const quarantined = [...unparseable];
+    let journalLength = 0;
+    for (const { line, content, record: item } of records) {
+      const reason = validateRecord(item);
+      if (reason) {
+        quarantined.push({ line, content, reason });
+        continue;
+      }
+      if (item.type === "entity") {
+        // Strip internal 'type' field to match Entity interface
+        const { type, ...entity } = item;
+        index.apply({ op: 'add_entity', entity: entity as unknown as Entity });
+      }
+      if (item.type === "relation") {
+        // Strip internal 'type' field to match Relation interface
+        const { type, ...relation } = item;
+        index.apply({ op: 'add_relation', relation: relation as unknown as Relation });
+      }
+      if (item.type === "op") {
+        // Journal entries are replayed on top of the snapshot lines before them
+        const { type, ...operation } = item;
+        index.apply(operation as unknown as GraphOperation);
+        journalLength++;
       }
     }
 
-    // Bonus for match at start of observation
-    if (obsLower.startsWith(queryLower) || tokens.some(t => obsLower.startsWith(t))) {
-      score += 15;
+    this.journalLength = journalLength;
+    this.truncatedSize = truncated?.size;
+    if (truncated) {
+      console.error(`[better-memory-mcp] Dropped a journal entry cut off at line ${truncated.line} of ${this.filePath}`);
     }
+    this.quarantined = quarantined.sort((a, b) => a.line - b.line);
+    if (quarantined.length > 0) {
+      console.error(`[better-memory-mcp] Skipped ${quarantined.length} invalid line(s) in ${this.filePath}; run repair_memory for details`);
+    }
+    return index;
+  }
 
-    return score;
+  private async save(graph: KnowledgeGraph): Promise<void> {
+    const lines = [
+      ...serializeGraph(graph),
+      ...this.quarantined.map(q => q.content),
+    ];
+    await writeFileAtomic(this.filePath, lines.join("\n"));
+    this.journalLength = 0;
+    this.truncatedSize = undefined;
   }
 
   /**
-   * Search at the observation level, returning individual matching observations
-   * with their parent entity context.
-   *
-   * This is more efficient than search_nodes when you need specific facts
-   * rather than entire entities.
+   * Append operations to the journal section of the memory file, as complete
+   * lines in a single write that is flushed to disk before the mutation is
+   * acknowledged. A journal entry left cut off by a crash is cut away first.
    */
-  async searchObservations(
-    query: string,
-    options: ObservationSearchOptions = {}
-  ): Promise<ObservationSearchResult> {
-    const graph = await this.loadGraph();
-    const { limit = 10, includeEntity = false, fuzzy = false } = options;
+  private async appendJournal(operations: GraphOperation[]): Promise<void> {
+    if (this.truncatedSize !== undefined) {
+      await fs.truncate(this.filePath, this.truncatedSize);
+      this.truncatedSize = undefined;
+    }
+    const lines = operations.map(operation => JSON.stringify({ type: "op", ...operation }));
+    const size = await fs.stat(this.filePath).then(stat => stat.size).catch(() => 0);
+    // Snapshots are written without a trailing newline, so separate the first entry;
+    // a new file starts with the format header instead
+    const handle = await fs.open(this.filePath, 'a');
+    try {
+      await handle.writeFile((size > 0 ? "\n" : formatHeader() + "\n") + lines.join("\n"));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    this.journalLength += operations.length;
+  }
 
-    // Handle empty query
-    if (!query.trim()) {
-      return { matches: [] };
+  private assertWritable(): void {
+    if (this.options.readOnly) {
+      throw new Error(`Memory file ${this.filePath} is mounted read-only`);
     }
+  }
 
-    // Parse the query for boolean operators
-    const parsed = this.parseQuery(query);
+  async loadGraph(): Promise<KnowledgeGraph> {
+    return (await this.load()).graph;
+  }
 
-    // Collect all matching observations with scores
-    const allMatches: ObservationMatch[] = [];
+  async view(): Promise<GraphView> {
+    return this.load();
+  }
 
-    for (const entity of graph.entities) {
-      for (const observation of entity.observations) {
-        // Check if observation matches the query
-        if (!this.matchesParsedQuery(observation, parsed)) {
-          // Try fuzzy matching if enabled
-          if (fuzzy) {
-            const allTerms = [...parsed.required, ...parsed.optional, ...parsed.phrases];
-            if (!allTerms.some(term => this.fuzzyMatch(observation, term))) {
-              continue;
-            }
+  async textIndex(): Promise<TextIndex> {
+    return (await this.load()).textIndex();
+  }
+
+  /**
+   * Run a read-modify-write cycle while holding the memory file lock, so that
+   * concurrent processes sharing the same file cannot lose each other's writes.
+   * Operations are either appended to the journal or persisted by rewriting the file.
+   */
+  async mutate<T>(fn: MutationCallback<T>, beforeCommit?: (result: T) => Promise<void>): Promise<T> {
+    this.assertWritable();
+    return withFileLock(this.filePath, async () => {
+      const index = await this.load(true);
+      const operations: GraphOperation[] = [];
+      try {
+        const result = fn(index, operation => {
+          index.apply(operation);
+          operations.push(operation);
+        });
+        await beforeCommit?.(result);
+
+        if (operations.length > 0) {
+          const threshold = this.options.journalCompactionThreshold ?? DEFAULT_JOURNAL_COMPACTION_THRESHOLD;
+          if (this.options.journal && this.journalLength + operations.length <= threshold) {
+            await this.appendJournal(operations);
           } else {
-            continue;
+            // Full rewrite, which also folds any existing journal into the snapshot
+            await this.save(index.graph);
           }
+          // Our own write: keep the mutated graph instead of re-parsing it
+          this.cache = { index, stamp: await this.statFile() };
         }
+        return result;
+      } catch (error) {
+        // The cached graph may hold operations that never reached the file
+        this.cache = undefined;
+        throw error;
+      }
+    }, this.options.lock);
+  }
+
+  /**
+   * Fold the journal back into a plain entity/relation snapshot.
+   */
+  async compact(): Promise<void> {
+    this.assertWritable();
+    await withFileLock(this.filePath, async () => {
+      const index = await this.load(true);
+      await this.save(index.graph);
+      this.cache = { index, stamp: await this.statFile() };
+    }, this.options.lock);
+  }
 
-        // Calculate relevance score
-        const rawQuery = query.replace(/[+\-"]/g, ' ').trim();
-        const score = this.scoreObservation(observation, rawQuery, fuzzy);
+  /**
+   * Re-read the file and report the lines that cannot be loaded. With rewrite,
+   * write a cleaned file without them, keeping the original as <file>.corrupt.
+   */
+  async repair(rewrite: boolean): Promise<RepairReport> {
+    if (rewrite) this.assertWritable();
+    return withFileLock(this.filePath, async () => {
+      this.cache = undefined;
+      const index = await this.load(true);
+      const report: RepairReport = { filePath: this.filePath, quarantined: this.quarantined, rewritten: false };
+
+      if (rewrite && this.quarantined.length > 0) {
+        const backupPath = `${this.filePath}.corrupt`;
+        await fs.copyFile(this.filePath, backupPath);
+        this.quarantined = [];
+        await this.save(index.graph);
+        this.cache = { index, stamp: await this.statFile() };
+        report.rewritten = true;
+        report.backupPath = backupPath;
+      }
+      return report;
+    }, this.options.lock);
+  }
 
-        if (score > 0) {
-          allMatches.push({
-            entityName: entity.name,
-            entityType: entity.entityType,
-            observation,
-            score
-          });
+  async close(): Promise<void> {}
+}
+
+/**
+ * Lookups backed by indexed SQL queries, so they never load the whole graph.
+ */
+class SqliteGraphView implements GraphView {
+  constructor(private db: DatabaseSync) {}
+
+  private entities(sql: string, ...params: SQLInputValue[]): Entity[] {
+    return this.db.prepare(sql).all(...params).map(row => JSON.parse(row.data as string) as Entity);
+  }
+
+  private relations(sql: string, ...params: SQLInputValue[]): Relation[] {
+    return this.db.prepare(sql).all(...params).map(row => JSON.parse(row.data as string) as Relation);
+  }
+
+  getEntity(name: string): Entity | undefined {
+    return this.entities('SELECT data FROM entities WHERE name = ?', name)[0];
+  }
+
+  hasEntity(name: string): boolean {
+    return this.db.prepare('SELECT 1 FROM entities WHERE name = ?').get(name) !== undefined;
+  }
+
+  getEntityByAlias(alias: string): Entity | undefined {
+    return this.entities(
+      'SELECT e.data FROM entity_names n JOIN entities e ON e.name = n.entity WHERE n.alias = ? ORDER BY e.seq LIMIT 1', alias
+    )[0];
+  }
+
+  getEntitiesByNameKey(key: string): Entity[] {
+    return this.entities(
+      'SELECT e.data FROM entities e WHERE e.name IN (SELECT entity FROM entity_names WHERE name_key = ?) ORDER BY e.seq', key
+    );
+  }
+
+  getEntitiesByType(entityType: string): Entity[] {
+    return this.entities('SELECT data FROM entities WHERE type_key = ? ORDER BY seq', entityType.toLowerCase());
+  }
+
+  getOutgoing(name: string, relationType?: string): Relation[] {
+    return relationType
+      ? this.relations('SELECT data FROM relations WHERE from_entity = ? AND relation_type = ? ORDER BY seq', name, relationType)
+      : this.relations('SELECT data FROM relations WHERE from_entity = ? ORDER BY seq', name);
+  }
+
+  getIncoming(name: string, relationType?: string): Relation[] {
+    return relationType
+      ? this.relations('SELECT data FROM relations WHERE to_entity = ? AND relation_type = ? ORDER BY seq', name, relationType)
+      : this.relations('SELECT data FROM relations WHERE to_entity = ? ORDER BY seq', name);
+  }
+
+  getRelationsByType(relationType: string): Relation[] {
+    return this.relations('SELECT data FROM relations WHERE type_key = ? ORDER BY seq', relationType.toLowerCase());
+  }
+
+  hasRelation(relation: Relation): boolean {
+    return this.db.prepare(
+      'SELECT 1 FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?'
+    ).get(relation.from, relation.to, relation.relationType) !== undefined;
+  }
+
+  listEntities(): Entity[] {
+    return this.entities('SELECT data FROM entities ORDER BY seq');
+  }
+
+  listRelations(): Relation[] {
+    return this.relations('SELECT data FROM relations ORDER BY seq');
+  }
+}
+
+/**
+ * Load node:sqlite if this Node.js version provides it. Resolved at runtime so the
+ * JSONL backend keeps working on older Node.js versions.
+ */
+function loadSqliteModule(): typeof import('node:sqlite') | undefined {
+  try {
+    return process.getBuiltinModule?.('node:sqlite');
+  } catch {
+    return undefined;
+  }
+}
+
+function requireSqliteModule(): typeof import('node:sqlite') {
+  const sqlite = loadSqliteModule();
+  if (!sqlite) {
+    throw new Error(`The SQLite backend requires the node:sqlite module of Node.js 22.13 or newer (running ${process.version}); use the jsonl backend on older versions`);
+  }
+  return sqlite;
+}
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS entities (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    type_key TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS entities_by_type ON entities(type_key);
+  CREATE TABLE IF NOT EXISTS relations (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_entity TEXT NOT NULL,
+    to_entity TEXT NOT NULL,
+    relation_type TEXT NOT NULL,
+    type_key TEXT NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (from_entity, relation_type, to_entity)
+  );
+  CREATE INDEX IF NOT EXISTS relations_by_target ON relations(to_entity, relation_type);
+  CREATE INDEX IF NOT EXISTS relations_by_type ON relations(type_key);
+  CREATE TABLE IF NOT EXISTS entity_names (
+    entity TEXT NOT NULL,
+    alias TEXT,                -- NULL for the row of the entity's own name
+    name_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS entity_names_by_entity ON entity_names(entity);
+  CREATE INDEX IF NOT EXISTS entity_names_by_alias ON entity_names(alias);
+  CREATE INDEX IF NOT EXISTS entity_names_by_key ON entity_names(name_key);
+`;
+
+/**
+ * Storage in an embedded SQLite database (node:sqlite, Node.js 22.13+). Entities
+ * and relations are stored as JSON documents with indexed name, type and endpoint
+ * columns. On first use the database is populated from an existing JSONL file.
+ */
+export class SqliteGraphStorage implements GraphStorage {
+  private db?: DatabaseSync;
+
+  // Full graph kept between calls; reused while no connection has committed changes
+  private cache?: { index: GraphIndex; dataVersion: number };
+  private writes: Promise<unknown> = Promise.resolve();  // The last mutation, which the next one waits for
+
+  constructor(readonly filePath: string, private importFrom?: string, private options: GraphStorageOptions = {}) {}
+
+  private async database(): Promise<DatabaseSync> {
+    if (this.db) return this.db;
+
+    const sqlite = requireSqliteModule();
+    const busyTimeout = this.options.lock?.timeoutMs ?? DEFAULT_LOCK_OPTIONS.timeoutMs;
+    if (this.options.readOnly) {
+      this.db = await this.openReadOnly(sqlite, busyTimeout);
+      return this.db;
+    }
+
+    const db = new sqlite.DatabaseSync(this.filePath);
+    db.exec(`PRAGMA journal_mode = WAL; PRAGMA busy_timeout = ${busyTimeout};`);
+    db.exec(SQLITE_SCHEMA);
+    this.db = db;
+    this.indexExistingNames(db);
+    await this.importJsonl(db);
+    return db;
+  }
+
+  /**
+   * Open an existing database without creating, migrating or importing
+   * anything, as any of those would write to it.
+   */
+  private async openReadOnly(sqlite: typeof import('node:sqlite'), busyTimeout: number): Promise<DatabaseSync> {
+    if (!(await fs.access(this.filePath).then(() => true).catch(() => false))) {
+      throw new Error(`Memory database ${this.filePath} does not exist and cannot be created read-only`);
+    }
+    const db = new sqlite.DatabaseSync(this.filePath, { readOnly: true });
+    db.exec(`PRAGMA busy_timeout = ${busyTimeout};`);
+    const current = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'meta'").get() &&
+      db.prepare("SELECT 1 FROM meta WHERE key = 'names_indexed'").get();
+    if (!current) {
+      db.close();
+      throw new Error(`Memory database ${this.filePath} must be opened writable once to bring it up to date before it can be read read-only`);
+    }
+    return db;
+  }
+
+  private assertWritable(): void {
+    if (this.options.readOnly) {
+      throw new Error(`Memory database ${this.filePath} is mounted read-only`);
+    }
+  }
+
+  /**
+   * Fill the alias and normalized-name lookup table of a database created
+   * before it existed.
+   */
+  private indexExistingNames(db: DatabaseSync): void {
+    if (db.prepare("SELECT 1 FROM meta WHERE key = 'names_indexed'").get()) return;
+    this.transaction(db, () => {
+      if (db.prepare("SELECT 1 FROM meta WHERE key = 'names_indexed'").get()) return;
+      new SqliteGraphView(db).listEntities().forEach(entity => this.writeNames(db, entity.name, entity));
+      db.prepare("INSERT INTO meta (key, value) VALUES ('names_indexed', ?)").run(new Date().toISOString());
+    });
+  }
+
+  // Replace the lookup rows of an entity, formerly named `name`; without an entity, remove them
+  private writeNames(db: DatabaseSync, name: string, entity?: Entity): void {
+    db.prepare('DELETE FROM entity_names WHERE entity = ?').run(name);
+    if (!entity) return;
+    const keys = new Set(nameKeys(entity));
+    const insert = db.prepare('INSERT INTO entity_names (entity, alias, name_key) VALUES (?, ?, ?)');
+    for (const alias of entity.aliases ?? []) {
+      const key = normalizeName(alias);
+      insert.run(entity.name, alias, key);
+      keys.delete(key);
+    }
+    keys.forEach(key => insert.run(entity.name, null, key));
+  }
+
+  /**
+   * One-shot migration: copy an existing JSONL memory file into a new database.
+   * The JSONL file is left untouched.
+   */
+  private async importJsonl(db: DatabaseSync): Promise<void> {
+    if (!this.importFrom) return;
+    if (db.prepare("SELECT 1 FROM meta WHERE key = 'initialized'").get()) return;
+
+    const exists = await fs.access(this.importFrom).then(() => true).catch(() => false);
+    const graph = exists ? await new JsonlGraphStorage(this.importFrom).loadGraph() : undefined;
+
+    this.transaction(db, () => {
+      // Another process may have initialized the database while we were reading
+      if (db.prepare("SELECT 1 FROM meta WHERE key = 'initialized'").get()) return;
+      if (graph) {
+        console.error(`DETECTED: Found ${this.importFrom}, migrating to SQLite database ${this.filePath}`);
+        graph.entities.forEach(entity => this.applyToDatabase(db, { op: 'add_entity', entity }));
+        graph.relations.forEach(relation => this.applyToDatabase(db, { op: 'add_relation', relation }));
+        db.prepare("INSERT INTO meta (key, value) VALUES ('migrated_from', ?)").run(this.importFrom!);
+        console.error(`COMPLETED: Migrated ${graph.entities.length} entities and ${graph.relations.length} relations to SQLite`);
+      }
+      db.prepare("INSERT INTO meta (key, value) VALUES ('initialized', ?)").run(new Date().toISOString());
+    });
+  }
+
+  private transaction<T>(db: DatabaseSync, fn: () => T): T {
+    // IMMEDIATE takes the write lock up front, serializing concurrent processes
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = fn();
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private writeEntity(db: DatabaseSync, entity: Entity): void {
+    db.prepare('UPDATE entities SET data = ? WHERE name = ?').run(JSON.stringify(entity), entity.name);
+  }
+
+  private applyToDatabase(db: DatabaseSync, operation: GraphOperation): void {
+    const view = new SqliteGraphView(db);
+    switch (operation.op) {
+      case 'add_entity': {
+        const { name, entityType } = operation.entity;
+        const { changes } = db.prepare('INSERT OR IGNORE INTO entities (name, type_key, data) VALUES (?, ?, ?)')
+          .run(name, entityType.toLowerCase(), JSON.stringify(operation.entity));
+        if (changes > 0) this.writeNames(db, name, operation.entity);
+        break;
+      }
+      case 'delete_entity':
+        db.prepare('DELETE FROM entities WHERE name = ?').run(operation.name);
+        db.prepare('DELETE FROM relations WHERE from_entity = ? OR to_entity = ?').run(operation.name, operation.name);
+        this.writeNames(db, operation.name);
+        break;
+      case 'rename_entity': {
+        const entity = view.getEntity(operation.name);
+        if (!entity || view.hasEntity(operation.newName)) break;
+        const relations = relationsOf(view, operation.name);
+        renameEntityTo(entity, operation);
+        db.prepare('UPDATE entities SET name = ?, data = ? WHERE name = ?')
+          .run(entity.name, JSON.stringify(entity), operation.name);
+        this.writeNames(db, operation.name, entity);
+        for (const relation of relations) {
+          const updated = renameEndpoints(relation, operation.name, operation.newName);
+          db.prepare(
+            'UPDATE relations SET from_entity = ?, to_entity = ?, data = ? WHERE from_entity = ? AND to_entity = ? AND relation_type = ?'
+          ).run(updated.from, updated.to, JSON.stringify(updated), relation.from, relation.to, relation.relationType);
+        }
+        break;
+      }
+      case 'set_aliases': {
+        const entity = view.getEntity(operation.name);
+        if (entity) {
+          setAliasesOf(entity, operation.aliases, operation.updatedAt);
+          this.writeEntity(db, entity);
+          this.writeNames(db, entity.name, entity);
+        }
+        break;
+      }
+      case 'set_archived': {
+        const entity = view.getEntity(operation.name);
+        if (entity) {
+          setArchivedOf(entity, operation.archivedAt, operation.updatedAt);
+          this.writeEntity(db, entity);
+        }
+        break;
+      }
+      case 'set_entity_type': {
+        const entity = view.getEntity(operation.name);
+        if (!entity) break;
+        entity.entityType = operation.entityType;
+        if (operation.updatedAt) entity.updatedAt = operation.updatedAt;
+        db.prepare('UPDATE entities SET type_key = ?, data = ? WHERE name = ?')
+          .run(entity.entityType.toLowerCase(), JSON.stringify(entity), entity.name);
+        break;
+      }
+      case 'add_observations': {
+        const entity = view.getEntity(operation.entityName);
+        if (entity) {
+          addObservationsTo(entity, operation);
+          this.writeEntity(db, entity);
+        }
+        break;
+      }
+      case 'delete_observations': {
+        const entity = view.getEntity(operation.entityName);
+        if (entity) {
+          removeObservationsFrom(entity, operation);
+          this.writeEntity(db, entity);
+        }
+        break;
+      }
+      case 'set_observations': {
+        const entity = view.getEntity(operation.entityName);
+        if (entity) {
+          setObservationsOf(entity, operation);
+          this.writeEntity(db, entity);
         }
+        break;
+      }
+      case 'add_relation': {
+        const { from, to, relationType } = operation.relation;
+        db.prepare(
+          'INSERT OR IGNORE INTO relations (from_entity, to_entity, relation_type, type_key, data) VALUES (?, ?, ?, ?, ?)'
+        ).run(from, to, relationType, relationType.toLowerCase(), JSON.stringify(operation.relation));
+        break;
+      }
+      case 'update_relation': {
+        const { from, to, relationType } = operation.relation;
+        db.prepare('UPDATE relations SET data = ? WHERE from_entity = ? AND to_entity = ? AND relation_type = ?')
+          .run(JSON.stringify(operation.relation), from, to, relationType);
+        break;
+      }
+      case 'delete_relation': {
+        const { from, to, relationType } = operation.relation;
+        db.prepare('DELETE FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?')
+          .run(from, to, relationType);
+        break;
       }
     }
+  }
 
-    // Sort by score descending
-    allMatches.sort((a, b) => b.score - a.score);
+  private dataVersion(db: DatabaseSync): number {
+    return db.prepare('PRAGMA data_version').get()!.data_version as number;
+  }
 
-    // Apply limit
-    const limitedMatches = allMatches.slice(0, limit);
+  async loadGraph(): Promise<KnowledgeGraph> {
+    const db = await this.database();
+    // data_version changes whenever another connection commits
+    const dataVersion = this.dataVersion(db);
+    if (this.cache && this.cache.dataVersion === dataVersion) {
+      return this.cache.index.graph;
+    }
+    const graph: KnowledgeGraph = {
+      entities: db.prepare('SELECT data FROM entities ORDER BY seq').all().map(row => JSON.parse(row.data as string)),
+      relations: db.prepare('SELECT data FROM relations ORDER BY seq').all().map(row => JSON.parse(row.data as string)),
+    };
+    this.cache = { index: new GraphIndex(graph), dataVersion };
+    return graph;
+  }
 
-    // Optionally include full entities
-    const result: ObservationSearchResult = { matches: limitedMatches };
+  async view(): Promise<GraphView> {
+    return new SqliteGraphView(await this.database());
+  }
 
-    if (includeEntity && limitedMatches.length > 0) {
-      const entityNames = new Set(limitedMatches.map(m => m.entityName));
-      result.entities = graph.entities.filter(e => entityNames.has(e.name));
+  async textIndex(): Promise<TextIndex> {
+    await this.loadGraph();
+    return this.cache!.index.textIndex();
+  }
+
+  async mutate<T>(fn: MutationCallback<T>, beforeCommit?: (result: T) => Promise<void>): Promise<T> {
+    this.assertWritable();
+    const db = await this.database();
+    // beforeCommit waits with the transaction open, so the connection runs one at a time
+    const write = this.writes.then(() => this.write(db, fn, beforeCommit));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write<T>(db: DatabaseSync, fn: MutationCallback<T>, beforeCommit?: (result: T) => Promise<void>): Promise<T> {
+    const operations: GraphOperation[] = [];
+    // IMMEDIATE takes the write lock up front, serializing concurrent processes
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = fn(new SqliteGraphView(db), operation => {
+        this.applyToDatabase(db, operation);
+        operations.push(operation);
+      });
+      await beforeCommit?.(result);
+      db.exec('COMMIT');
+      // Our own commits do not bump data_version, so bring the cache up to date
+      // here, which keeps its text index instead of rebuilding it on the next search
+      operations.forEach(operation => this.cache?.index.apply(operation));
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      if (operations.length > 0) this.cache = undefined;
+      throw error;
     }
+  }
 
-    return result;
+  async compact(): Promise<void> {
+    this.assertWritable();
+    const db = await this.database();
+    db.exec('VACUUM');
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+    this.cache = undefined;
   }
 }
 
-let knowledgeGraphManager: KnowledgeGraphManager;
+/**
+ * Create the storage backend for a memory file. For SQLite, a path ending in
+ * .db/.sqlite/.sqlite3 is used as the database itself; any other path names the
+ * JSONL file to migrate from, with the database stored next to it as <name>.db.
+ */
+export function createGraphStorage(filePath: string, options: GraphStorageOptions = {}): GraphStorage {
+  if (options.backend === 'sqlite') {
+    if (/\.(db|sqlite3?)$/i.test(filePath)) {
+      return new SqliteGraphStorage(filePath, undefined, options);
+    }
+    const databasePath = filePath.replace(/\.jsonl?$/i, '') + '.db';
+    return new SqliteGraphStorage(databasePath, filePath, options);
+  }
+  return new JsonlGraphStorage(filePath, options);
+}
+
+// ==================== Operation Log ====================
+
+// A recorded mutation: the operations it applied and the operations that revert it
+export interface OperationLogEntry {
+  label: string;                  // The mutation that was recorded, e.g. "deleteEntities"
+  timestamp: string;
+  operations: GraphOperation[];
+  inverse: GraphOperation[];      // In the order they must be applied
+  trash?: OperationTrashChange;
+}
+
+// The trash entry written by a soft delete or taken out by a restore, so that
+// undo and redo can keep the trash in line with the graph
+export interface OperationTrashChange {
+  added?: TrashEntry;
+  removed?: TrashEntry;
+}
+
+// Summary of an entry reverted by undo or reapplied by redo
+export interface OperationLogResult {
+  entries: { label: string; timestamp: string; operations: number }[];
+  remaining: number;              // Entries still available in the same direction
+}
+
+interface OperationLogState {
+  undo: OperationLogEntry[];      // Oldest first
+  redo: OperationLogEntry[];      // The next entry to redo last
+}
+
+const DEFAULT_UNDO_LIMIT = 100;
+
+/**
+ * The operations that revert `operation`, computed from the state before it is applied.
+ */
+function invertOperation(view: GraphView, operation: GraphOperation): GraphOperation[] {
+  switch (operation.op) {
+    case 'add_entity':
+      return [{ op: 'delete_entity', name: operation.entity.name }];
+    case 'delete_entity': {
+      const entity = view.getEntity(operation.name);
+      if (!entity) return [];
+      // Deleting an entity cascades to its relations, so those are restored too
+      const relations = new Map<string, Relation>();
+      [...view.getOutgoing(operation.name), ...view.getIncoming(operation.name)]
+        .forEach(r => relations.set(JSON.stringify([r.from, r.relationType, r.to]), { ...r }));
+      return [
+        { op: 'add_entity', entity: { ...entity, observations: [...entity.observations] } },
+        ...[...relations.values()].map(relation => ({ op: 'add_relation' as const, relation })),
+      ];
+    }
+    case 'rename_entity': {
+      const entity = view.getEntity(operation.name);
+      if (!entity || view.hasEntity(operation.newName)) return [];
+      return [{
+        op: 'rename_entity',
+        name: operation.newName,
+        newName: operation.name,
+        aliases: entity.aliases ?? [],
+        updatedAt: entity.updatedAt,
+      }];
+    }
+    case 'set_entity_type': {
+      const entity = view.getEntity(operation.name);
+      if (!entity) return [];
+      return [{ op: 'set_entity_type', name: operation.name, entityType: entity.entityType, updatedAt: entity.updatedAt }];
+    }
+    case 'set_aliases': {
+      const entity = view.getEntity(operation.name);
+      if (!entity) return [];
+      return [{ op: 'set_aliases', name: operation.name, aliases: entity.aliases ?? [], updatedAt: entity.updatedAt }];
+    }
+    case 'set_archived': {
+      const entity = view.getEntity(operation.name);
+      if (!entity) return [];
+      return [{ op: 'set_archived', name: operation.name, archivedAt: entity.archivedAt, updatedAt: entity.updatedAt }];
+    }
+    case 'add_observations':
+      return [{
+        op: 'delete_observations',
+        entityName: operation.entityName,
+        observations: [...operation.observations],
+        updatedAt: view.getEntity(operation.entityName)?.updatedAt,
+      }];
+    case 'delete_observations': {
+      const entity = view.getEntity(operation.entityName);
+      const removed = entity?.observations.filter(o => operation.observations.includes(o)) ?? [];
+      if (!entity || removed.length === 0) return [];
+      const meta = Object.fromEntries(removed
+        .filter(o => entity.observationMeta?.[o])
+        .map(o => [o, entity.observationMeta![o]]));
+      return [{ op: 'add_observations', entityName: operation.entityName, observations: removed, meta, updatedAt: entity.updatedAt }];
+    }
+    case 'set_observations': {
+      const entity = view.getEntity(operation.entityName);
+      if (!entity) return [];
+      return [{
+        op: 'set_observations',
+        entityName: operation.entityName,
+        observations: [...entity.observations],
+        meta: entity.observationMeta,
+        updatedAt: entity.updatedAt,
+      }];
+    }
+    case 'add_relation':
+      return [{ op: 'delete_relation', relation: { ...operation.relation } }];
+    case 'update_relation':
+    case 'delete_relation': {
+      // The stored relation, as the operation may only name its endpoints and type
+      const existing = findRelation(view, operation.relation);
+      if (!existing) return [];
+      return [{ op: operation.op === 'update_relation' ? 'update_relation' : 'add_relation', relation: { ...existing } }];
+    }
+  }
+}
+
+/**
+ * Adjust a recorded operation to the current graph before replaying it, as other
+ * clients may have changed the graph since it was recorded. Additions that already
+ * happened are dropped so that replaying never duplicates entities or relations.
+ */
+function reconcileOperation(view: GraphView, operation: GraphOperation): GraphOperation | undefined {
+  switch (operation.op) {
+    case 'add_entity':
+      return view.hasEntity(operation.entity.name) ? undefined : operation;
+    case 'rename_entity':
+      return view.hasEntity(operation.name) && !view.hasEntity(operation.newName) ? operation : undefined;
+    case 'add_observations': {
+      const entity = view.getEntity(operation.entityName);
+      const observations = operation.observations.filter(o => entity && !entity.observations.includes(o));
+      if (observations.length === 0) return undefined;
+      // Keep the metadata of observations that are already present
+      const meta = operation.meta && Object.fromEntries(Object.entries(operation.meta).filter(([o]) => observations.includes(o)));
+      return { ...operation, observations, meta };
+    }
+    case 'add_relation':
+      return view.hasRelation(operation.relation) ? undefined : operation;
+    case 'update_relation':
+      return view.hasRelation(operation.relation) ? operation : undefined;
+    default:
+      return operation;
+  }
+}
+
+function summarizeEntries(entries: OperationLogEntry[], remaining: number): OperationLogResult {
+  return {
+    entries: entries.map(e => ({ label: e.label, timestamp: e.timestamp, operations: e.operations.length })),
+    remaining,
+  };
+}
+
+/**
+ * Undo and redo stacks of recent mutations, persisted next to the memory file so
+ * they survive restarts and are shared by every client of the same file.
+ */
+export class OperationLog {
+  constructor(readonly filePath: string, private limit: number = DEFAULT_UNDO_LIMIT, private lock?: FileLockOptions) {}
+
+  get enabled(): boolean {
+    return this.limit > 0;
+  }
+
+  private async read(): Promise<OperationLogState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return { undo: state.undo ?? [], redo: state.redo ?? [] };
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return { undo: [], redo: [] };
+      if (error instanceof SyntaxError) {
+        console.error(`[better-memory-mcp] Ignoring unreadable operation log ${this.filePath}`);
+        return { undo: [], redo: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write the log while holding its lock.
+   */
+  async update<T>(fn: (state: OperationLogState) => Promise<T>): Promise<T> {
+    return withFileLock(this.filePath, async () => {
+      const state = await this.read();
+      const result = await fn(state);
+      await writeFileAtomic(this.filePath, JSON.stringify(state));
+      return result;
+    }, this.lock);
+  }
+
+  /**
+   * Record a new mutation. The redo stack is cleared, since its entries were
+   * undone from a state that no longer exists.
+   */
+  async record(entry: OperationLogEntry): Promise<void> {
+    if (!this.enabled) return;
+    await this.update(async state => {
+      state.undo.push(entry);
+      state.undo.splice(0, Math.max(0, state.undo.length - this.limit));
+      state.redo = [];
+    });
+  }
+}
+
+// ==================== Trash ====================
+
+// The items removed by one delete call, kept until restored or purged
+export interface TrashEntry {
+  id: string;
+  deletedAt: string;
+  operation: 'delete_entities' | 'delete_observations' | 'delete_relations';
+  entities: Entity[];
+  observations: { entityName: string; observations: string[]; meta?: Record<string, ObservationMeta> }[];
+  relations: Relation[];          // Deleted relations, including those removed along with the entities
+}
+
+// What restoreFromTrash put back, and what it could not
+export interface TrashRestoreResult {
+  id: string;
+  entities: string[];
+  observations: { entityName: string; observations: string[] }[];
+  relations: Relation[];
+  skipped: string[];              // Items not restored, with the reason
+  [key: string]: unknown;
+}
+
+// A trash entry as listed by list_trash
+export interface TrashInfo {
+  id: string;
+  deletedAt: string;
+  operation: TrashEntry['operation'];
+  entities: string[];
+  observations: number;
+  relations: number;
+  [key: string]: unknown;
+}
+
+interface TrashState {
+  nextId: number;
+  entries: TrashEntry[];          // Oldest first
+}
+
+/**
+ * Deleted items, stored next to the memory file as <memory file>.trash.json
+ * so that soft deletes can be restored after a restart and by other clients.
+ */
+export class TrashBin {
+  constructor(readonly filePath: string, private lock?: FileLockOptions) {}
+
+  private async read(): Promise<TrashState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return { nextId: state.nextId ?? 1, entries: state.entries ?? [] };
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return { nextId: 1, entries: [] };
+      if (error instanceof SyntaxError) {
+        // Keep a copy, since the next write replaces the file
+        await fs.copyFile(this.filePath, `${this.filePath}.corrupt`);
+        console.error(`[better-memory-mcp] Ignoring unreadable trash ${this.filePath} (copied to ${this.filePath}.corrupt)`);
+        return { nextId: 1, entries: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async update<T>(fn: (state: TrashState) => T | Promise<T>): Promise<T> {
+    return withFileLock(this.filePath, async () => {
+      const state = await this.read();
+      const result = await fn(state);
+      await writeFileAtomic(this.filePath, JSON.stringify(state));
+      return result;
+    }, this.lock);
+  }
+
+  // Entries, newest first
+  async list(): Promise<TrashEntry[]> {
+    return (await this.read()).entries.reverse();
+  }
+
+  async get(id: string): Promise<TrashEntry> {
+    const entry = (await this.read()).entries.find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`Trash entry ${id} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * Take entries out and put entries back with their ids, in the given order.
+   */
+  async replay(changes: { put?: TrashEntry; remove?: TrashEntry }[]): Promise<void> {
+    await this.update(state => {
+      for (const { put, remove } of changes) {
+        if (remove) state.entries = state.entries.filter(e => e.id !== remove.id);
+        if (put && !state.entries.some(e => e.id === put.id)) {
+          state.entries.push(put);
+          state.nextId = Math.max(state.nextId, Number(put.id) + 1);
+        }
+      }
+      state.entries.sort((a, b) => Number(a.id) - Number(b.id));
+    });
+  }
+
+  /**
+   * Hold the trash lock while fn runs, passing it a function that stores an
+   * entry right away, so the entry is on disk before whatever fn does next.
+   */
+  async adding<T>(fn: (add: (entry: Omit<TrashEntry, 'id'>) => Promise<TrashEntry>) => Promise<T>): Promise<T> {
+    return withFileLock(this.filePath, async () => {
+      const state = await this.read();
+      return fn(async entry => {
+        const added = { id: String(state.nextId++), ...entry };
+        state.entries.push(added);
+        await writeFileAtomic(this.filePath, JSON.stringify(state));
+        return added;
+      });
+    }, this.lock);
+  }
+
+  /**
+   * Pass an entry to fn and remove it once fn succeeds, holding the trash lock
+   * throughout so that concurrent callers cannot take the same entry twice.
+   */
+  async take<T>(id: string, fn: (entry: TrashEntry) => Promise<T>): Promise<T> {
+    return this.update(async state => {
+      const entry = state.entries.find(e => e.id === id);
+      if (!entry) {
+        throw new Error(`Trash entry ${id} not found`);
+      }
+      const result = await fn(entry);
+      state.entries = state.entries.filter(e => e !== entry);
+      return result;
+    });
+  }
+
+  /**
+   * Remove the entries matching a predicate, returning them.
+   */
+  async remove(predicate: (entry: TrashEntry) => boolean): Promise<TrashEntry[]> {
+    return this.update(state => {
+      const removed = state.entries.filter(predicate);
+      state.entries = state.entries.filter(e => !removed.includes(e));
+      return removed;
+    });
+  }
+}
+
+// ==================== Snapshots ====================
+
+export interface SnapshotOptions {
+  count?: number;        // Snapshots kept before the oldest are removed; 0 disables snapshots
+  intervalMs?: number;   // Age of the newest snapshot after which the next mutation takes another; 0 disables
+  directory?: string;    // Defaults to <memory file>.snapshots
+}
+
+export interface SnapshotInfo {
+  id: string;
+  reason: string;        // What triggered the snapshot, e.g. "interval" or "delete_entities"
+  createdAt: string;
+  size: number;          // File size in bytes
+  entities: number;
+  relations: number;
+}
+
+const DEFAULT_SNAPSHOT_COUNT = 10;
+const DEFAULT_SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Rotating point-in-time copies of the graph, each stored as a JSONL memory file
+ * named after its creation time. Snapshots are written in the JSONL format for
+ * every backend, so they can be inspected or copied into place by hand.
+ */
+export class SnapshotStore {
+  readonly directory: string;
+  private readonly count: number;
+  private readonly intervalMs: number;
+
+  // Time of the newest snapshot, read from the directory on first use
+  private lastTakenAt?: number;
+
+  constructor(memoryFilePath: string, options: SnapshotOptions = {}) {
+    this.directory = options.directory ?? `${memoryFilePath}.snapshots`;
+    this.count = options.count ?? DEFAULT_SNAPSHOT_COUNT;
+    this.intervalMs = options.intervalMs ?? DEFAULT_SNAPSHOT_INTERVAL_MS;
+  }
+
+  get enabled(): boolean {
+    return this.count > 0;
+  }
+
+  private pathFor(id: string): string {
+    return path.join(this.directory, `${id}.jsonl`);
+  }
+
+  // Snapshot ids, oldest first
+  private async ids(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter(f => f.endsWith('.jsonl')).map(f => f.slice(0, -'.jsonl'.length)).sort();
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the snapshot interval has passed since the newest snapshot.
+   */
+  async isDue(): Promise<boolean> {
+    if (!this.enabled || this.intervalMs <= 0) return false;
+    if (this.lastTakenAt === undefined) {
+      const newest = (await this.ids()).at(-1);
+      this.lastTakenAt = newest ? (await fs.stat(this.pathFor(newest))).mtimeMs : 0;
+    }
+    return Date.now() - this.lastTakenAt >= this.intervalMs;
+  }
+
+  /**
+   * Write a snapshot of the graph and remove the oldest ones beyond the configured
+   * count. Returns the id of the snapshot holding the graph, which is the newest
+   * existing one when nothing changed since; empty graphs are not snapshotted.
+   */
+  async take(graph: KnowledgeGraph, reason: string): Promise<string | undefined> {
+    if (!this.enabled || (graph.entities.length === 0 && graph.relations.length === 0)) return undefined;
+
+    const data = serializeGraph(graph).join("\n");
+    const ids = await this.ids();
+    const newest = ids.at(-1);
+    if (newest && await fs.readFile(this.pathFor(newest), 'utf-8').catch(() => undefined) === data) {
+      this.lastTakenAt = Date.now();
+      return newest;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const base = `${new Date().toISOString().replace(/[:.]/g, '-')}-${reason}`;
+    let id = base;
+    for (let n = 1; ids.includes(id); n++) {
+      id = `${base}-${n}`;
+    }
+    await writeFileAtomic(this.pathFor(id), data);
+    this.lastTakenAt = Date.now();
+
+    const all = await this.ids();
+    for (const old of all.slice(0, Math.max(0, all.length - this.count))) {
+      await fs.rm(this.pathFor(old), { force: true });
+    }
+    return id;
+  }
+
+  /**
+   * Describe the stored snapshots, newest first.
+   */
+  async list(): Promise<SnapshotInfo[]> {
+    const ids = (await this.ids()).reverse();
+    return Promise.all(ids.map(async id => {
+      const stat = await fs.stat(this.pathFor(id));
+      const graph = await this.read(id);
+      return {
+        id,
+        reason: id.replace(/^\d{4}-\d{2}-\d{2}T[\d-]+Z-/, '').replace(/-\d+$/, ''),
+        createdAt: stat.mtime.toISOString(),
+        size: stat.size,
+        entities: graph.entities.length,
+        relations: graph.relations.length,
+      };
+    }));
+  }
+
+  async read(id: string): Promise<KnowledgeGraph> {
+    // Only accept known ids, so a crafted id cannot point outside the directory
+    if (!(await this.ids()).includes(id)) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    return new JsonlGraphStorage(this.pathFor(id), { readOnly: true }).loadGraph();
+  }
+}
+
+// ==================== Schema ====================
+
+// strict rejects writes that violate the schema; warn accepts them and reports the violations
+export type SchemaMode = 'strict' | 'warn';
+
+export interface EntityTypeDefinition {
+  name: string;
+  description?: string;
+  requiredObservationPrefixes?: string[];   // Each must begin some observation of every entity of the type, e.g. "Purpose:"
+}
+
+export interface RelationTypeDefinition {
+  name: string;
+  description?: string;
+  domain?: string[];     // Entity types allowed as the source; any when omitted
+  range?: string[];      // Entity types allowed as the target; any when omitted
+  symmetric?: boolean;   // A relatedTo B also reads as B relatedTo A
+  inverse?: string;      // Name of the reverse reading: A imports B also reads as B importedBy A
+}
+
+// Entity and relation types are unrestricted while none of the kind is declared
+export interface GraphSchema {
+  mode: SchemaMode;
+  entityTypes: EntityTypeDefinition[];
+  relationTypes: RelationTypeDefinition[];
+  typeHierarchy: Record<string, string[]>;   // Direct subtypes of each entity type, e.g. Component: [Service, Controller]
+}
+
+export interface SchemaOptions {
+  filePath?: string;     // JSON or YAML schema shared by every namespace
+  mode?: SchemaMode;     // Overrides the mode of the schema file; defaults to warn
+}
+
+export interface SchemaViolation {
+  rule: 'entity_type' | 'observation_prefix' | 'relation_type' | 'domain' | 'range';
+  entityName?: string;   // The offending entity, for entity rules
+  relation?: Relation;   // The offending relation, for relation rules
+  message: string;
+}
+
+type SchemaDefinitions = Partial<Omit<GraphSchema, 'mode'>> & { mode?: SchemaMode };
+
+function parseTypeHierarchy(value: unknown, filePath: string): Record<string, string[]> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)
+    || !Object.values(value).every(subtypes => Array.isArray(subtypes) && subtypes.every(t => typeof t === 'string'))) {
+    throw new Error(`Invalid typeHierarchy in schema ${filePath} (expected lists of subtypes keyed by type name)`);
+  }
+  return value as Record<string, string[]>;
+}
+
+/**
+ * Read a list of type definitions, given either as an array of definitions or
+ * as an object keyed by type name (the more natural form in YAML).
+ */
+function parseDefinitions<T extends { name: string }>(value: unknown, key: string, filePath: string): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value as T[];
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([name, definition]) => ({ ...(definition ?? {}), name }) as T);
+  }
+  throw new Error(`Invalid ${key} in schema ${filePath} (expected a list or an object keyed by type name)`);
+}
+
+function parseSchemaMode(value: unknown, origin: string): SchemaMode | undefined {
+  if (value === undefined || value === 'strict' || value === 'warn') return value;
+  throw new Error(`Invalid schema mode "${value}" in ${origin} (expected "strict" or "warn")`);
+}
+
+// Combine definitions, a later definition replacing an earlier one with the same name
+function mergeDefinitions<T extends { name: string }>(...lists: (T[] | undefined)[]): T[] {
+  const merged = new Map<string, T>();
+  lists.flat().forEach(definition => definition && merged.set(definition.name, definition));
+  return [...merged.values()];
+}
+
+/**
+ * The reverse reading of each relation type that has one: symmetric types read
+ * as themselves, and a type and its declared inverse read as each other.
+ */
+function relationInverses(schema: GraphSchema): Map<string, string> {
+  const inverses = new Map<string, string>();
+  for (const definition of schema.relationTypes) {
+    if (definition.symmetric) inverses.set(definition.name, definition.name);
+    if (definition.inverse) {
+      inverses.set(definition.name, definition.inverse);
+      inverses.set(definition.inverse, definition.name);
+    }
+  }
+  return inverses;
+}
+
+/**
+ * An entity type followed by its subtypes or supertypes in the declared
+ * hierarchy, transitively. Types compare case-insensitively like filterByType,
+ * and each type appears once, in its first spelling.
+ */
+function typeClosure(schema: GraphSchema, entityType: string, toward: 'subtypes' | 'supertypes'): string[] {
+  const links = Object.entries(schema.typeHierarchy).flatMap(([parent, subtypes]) =>
+    subtypes.map(subtype => toward === 'subtypes' ? [parent, subtype] : [subtype, parent]));
+  const closure = new Map([[entityType.toLowerCase(), entityType]]);
+  for (const [key] of closure) {
+    for (const [from, to] of links) {
+      if (from.toLowerCase() === key && !closure.has(to.toLowerCase())) closure.set(to.toLowerCase(), to);
+    }
+  }
+  return [...closure.values()];
+}
+
+// A stored relation read from its target, e.g. `A imports B` as `B importedBy A`
+function reverseRelation(relation: Relation, inverses: Map<string, string>): Relation | undefined {
+  const relationType = inverses.get(relation.relationType);
+  if (relationType === undefined) return undefined;
+  return { ...relation, from: relation.to, to: relation.from, relationType, inferred: true };
+}
+
+/**
+ * The types an agent may use in a graph. Definitions come from an optional
+ * JSON or YAML file and from definitions made through the tools, which are
+ * kept next to the memory file and take precedence over same-named ones from
+ * the file. Both are read on every use, so edits apply without a restart.
+ */
+export class SchemaRegistry {
+  constructor(readonly filePath: string, private options: SchemaOptions = {}, private lock?: FileLockOptions) {}
+
+  private static async readFile(filePath: string, yaml: boolean): Promise<SchemaDefinitions> {
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return {};
+      throw error;
+    }
+    // YAML is a superset of JSON, so the parser accepts schema files in either format
+    const data = yaml ? parseYaml(text) : JSON.parse(text);
+    if (data === null || data === undefined) return {};
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`Invalid schema ${filePath} (expected an object with entityTypes and relationTypes)`);
+    }
+    return {
+      mode: parseSchemaMode(data.mode, filePath),
+      entityTypes: parseDefinitions<EntityTypeDefinition>(data.entityTypes, 'entityTypes', filePath),
+      relationTypes: parseDefinitions<RelationTypeDefinition>(data.relationTypes, 'relationTypes', filePath),
+      typeHierarchy: parseTypeHierarchy(data.typeHierarchy, filePath),
+    };
+  }
+
+  async load(): Promise<GraphSchema> {
+    const configured = this.options.filePath ? await SchemaRegistry.readFile(this.options.filePath, true) : {};
+    const defined = await SchemaRegistry.readFile(this.filePath, false);
+    return {
+      mode: this.options.mode ?? configured.mode ?? 'warn',
+      entityTypes: mergeDefinitions(configured.entityTypes, defined.entityTypes),
+      relationTypes: mergeDefinitions(configured.relationTypes, defined.relationTypes),
+      typeHierarchy: { ...configured.typeHierarchy, ...defined.typeHierarchy },
+    };
+  }
+
+  // Add or replace a definition kept next to the memory file
+  private async define<K extends 'entityTypes' | 'relationTypes'>(
+    key: K,
+    definition: NonNullable<SchemaDefinitions[K]>[number]
+  ): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      const defined = await SchemaRegistry.readFile(this.filePath, false);
+      const definitions = mergeDefinitions<{ name: string }>(defined[key], [definition]);
+      await writeFileAtomic(this.filePath, JSON.stringify({ ...defined, [key]: definitions }, null, 2));
+    }, this.lock);
+  }
+
+  async defineEntityType(definition: EntityTypeDefinition): Promise<void> {
+    await this.define('entityTypes', definition);
+  }
+
+  async defineRelationType(definition: RelationTypeDefinition): Promise<void> {
+    await this.define('relationTypes', definition);
+  }
+
+  // Replace the direct subtypes of a type; an empty list removes them
+  async defineSubtypes(parent: string, subtypes: string[]): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      const defined = await SchemaRegistry.readFile(this.filePath, false);
+      const typeHierarchy = { ...defined.typeHierarchy, [parent]: subtypes };
+      await writeFileAtomic(this.filePath, JSON.stringify({ ...defined, typeHierarchy }, null, 2));
+    }, this.lock);
+  }
+}
+
+// ==================== Federation ====================
+
+// A JSONL memory file merged read-only into the results of read operations
+export interface MountOptions {
+  filePath: string;
+  label?: string;        // Origin reported for its entities and relations; defaults to the file name
+}
+
+// Origin reported for entities and relations of the writable graph when graphs are mounted
+export const PRIMARY_ORIGIN = 'primary';
+
+/**
+ * Lookups over several graphs, in order of precedence. An entity is taken from
+ * the first graph that has one with its name, hiding same-named entities in later
+ * graphs; relations are combined from all graphs. Every returned entity and
+ * relation is a copy annotated with the origin of the graph it came from.
+ */
+class FederatedGraphView implements GraphView {
+  constructor(private sources: { origin: string; view: GraphView }[]) {}
+
+  private static annotate<T extends Entity | Relation>(item: T, origin: string): T {
+    return { ...item, origin };
+  }
+
+  // Whether a graph earlier than sources[i] has an entity with this name
+  private isShadowed(i: number, name: string): boolean {
+    return this.sources.slice(0, i).some(source => source.view.hasEntity(name));
+  }
+
+  private mergeEntities(select: (view: GraphView) => Entity[]): Entity[] {
+    return this.sources.flatMap(({ origin, view }, i) => select(view)
+      .filter(entity => !this.isShadowed(i, entity.name))
+      .map(entity => FederatedGraphView.annotate(entity, origin)));
+  }
+
+  private mergeRelations(select: (view: GraphView) => Relation[]): Relation[] {
+    const relations = new Map<string, Relation>();
+    for (const { origin, view } of this.sources) {
+      for (const relation of select(view)) {
+        const key = JSON.stringify([relation.from, relation.relationType, relation.to]);
+        if (!relations.has(key)) relations.set(key, FederatedGraphView.annotate(relation, origin));
+      }
+    }
+    return Array.from(relations.values());
+  }
+
+  getEntity(name: string): Entity | undefined {
+    for (const { origin, view } of this.sources) {
+      const entity = view.getEntity(name);
+      if (entity) return FederatedGraphView.annotate(entity, origin);
+    }
+    return undefined;
+  }
+
+  hasEntity(name: string): boolean {
+    return this.sources.some(source => source.view.hasEntity(name));
+  }
+
+  getEntityByAlias(alias: string): Entity | undefined {
+    for (const [i, { origin, view }] of this.sources.entries()) {
+      const entity = view.getEntityByAlias(alias);
+      if (entity && !this.isShadowed(i, entity.name)) return FederatedGraphView.annotate(entity, origin);
+    }
+    return undefined;
+  }
+
+  getEntitiesByNameKey(key: string): Entity[] {
+    return this.mergeEntities(view => view.getEntitiesByNameKey(key));
+  }
+
+  getEntitiesByType(entityType: string): Entity[] {
+    return this.mergeEntities(view => view.getEntitiesByType(entityType));
+  }
+
+  getOutgoing(name: string, relationType?: string): Relation[] {
+    return this.mergeRelations(view => view.getOutgoing(name, relationType));
+  }
+
+  getIncoming(name: string, relationType?: string): Relation[] {
+    return this.mergeRelations(view => view.getIncoming(name, relationType));
+  }
+
+  getRelationsByType(relationType: string): Relation[] {
+    return this.mergeRelations(view => view.getRelationsByType(relationType));
+  }
+
+  hasRelation(relation: Relation): boolean {
+    return this.sources.some(source => source.view.hasRelation(relation));
+  }
+
+  listEntities(): Entity[] {
+    return this.mergeEntities(view => view.listEntities());
+  }
+
+  listRelations(): Relation[] {
+    return this.mergeRelations(view => view.listRelations());
+  }
+}
+
+// ==================== Validity ====================
+
+// The time a read looks at, and which items it leaves out
+interface PointInTime {
+  time: number;
+  recorded: boolean;         // Leave out items recorded after `time`
+  includeExpired: boolean;   // Keep items whose expiry has passed
+  includeArchived: boolean;  // Keep entities archived by then
+}
+
+type Timed = { createdAt?: string; validFrom?: string; validTo?: string; expiresAt?: string; archivedAt?: string };
+
+/**
+ * Whether an item holds at a point in time: inside its validFrom/validTo
+ * window, neither expired nor archived and, when `recorded` is set, already
+ * recorded by then.
+ */
+function validAt(item: Timed, at: PointInTime): boolean {
+  if (item.validFrom !== undefined && Date.parse(item.validFrom) > at.time) return false;
+  if (item.validTo !== undefined && Date.parse(item.validTo) <= at.time) return false;
+  if (!at.includeExpired && item.expiresAt !== undefined && Date.parse(item.expiresAt) <= at.time) return false;
+  if (!at.includeArchived && item.archivedAt !== undefined && Date.parse(item.archivedAt) <= at.time) return false;
+  return !at.recorded || item.createdAt === undefined || Date.parse(item.createdAt) <= at.time;
+}
+
+// An entity as it stood at a point in time, without the observations that did not hold then
+function entityAt(entity: Entity, at: PointInTime): Entity | undefined {
+  if (!validAt(entity, at)) return undefined;
+  const meta = entity.observationMeta;
+  if (!meta) return entity;
+  const observations = entity.observations.filter(o => !meta[o] || validAt(meta[o], at));
+  if (observations.length === entity.observations.length) return entity;
+  const kept = new Set(observations);
+  return {
+    ...entity,
+    observations,
+    observationMeta: Object.fromEntries(Object.entries(meta).filter(([o]) => kept.has(o))),
+  };
+}
+
+/**
+ * The whole graph as it stood at a point in time; relations of entities left
+ * out are left out too. The graph itself is returned when nothing is left out.
+ */
+function graphAt(graph: KnowledgeGraph, at: PointInTime): KnowledgeGraph {
+  const hidden = new Set<string>();
+  let changed = false;
+  const entities = graph.entities.flatMap(entity => {
+    const current = entityAt(entity, at);
+    if (!current) hidden.add(entity.name);
+    if (current !== entity) changed = true;
+    return current ? [current] : [];
+  });
+  const relations = graph.relations.filter(r => validAt(r, at) && !hidden.has(r.from) && !hidden.has(r.to));
+  return changed || relations.length < graph.relations.length ? { entities, relations } : graph;
+}
+
+/**
+ * Lookups over the graph as it stood at a point in time, like graphAt.
+ * Relations whose endpoint is not an entity at all stay visible, as in the
+ * underlying view.
+ */
+class TemporalGraphView implements GraphView {
+  constructor(private view: GraphView, private at: PointInTime) {}
+
+  private entities(entities: Entity[]): Entity[] {
+    return entities.flatMap(entity => entityAt(entity, this.at) ?? []);
+  }
+
+  private relations(relations: Relation[]): Relation[] {
+    const exists = (name: string) => !this.view.hasEntity(name) || this.hasEntity(name);
+    return relations.filter(r => validAt(r, this.at) && exists(r.from) && exists(r.to));
+  }
+
+  getEntity(name: string): Entity | undefined {
+    const entity = this.view.getEntity(name);
+    return entity && entityAt(entity, this.at);
+  }
+
+  hasEntity(name: string): boolean {
+    return this.getEntity(name) !== undefined;
+  }
+
+  getEntityByAlias(alias: string): Entity | undefined {
+    const entity = this.view.getEntityByAlias(alias);
+    return entity && entityAt(entity, this.at);
+  }
+
+  getEntitiesByNameKey(key: string): Entity[] {
+    return this.entities(this.view.getEntitiesByNameKey(key));
+  }
+
+  getEntitiesByType(entityType: string): Entity[] {
+    return this.entities(this.view.getEntitiesByType(entityType));
+  }
+
+  getOutgoing(name: string, relationType?: string): Relation[] {
+    return this.relations(this.view.getOutgoing(name, relationType));
+  }
+
+  getIncoming(name: string, relationType?: string): Relation[] {
+    return this.relations(this.view.getIncoming(name, relationType));
+  }
+
+  getRelationsByType(relationType: string): Relation[] {
+    return this.relations(this.view.getRelationsByType(relationType));
+  }
+
+  hasRelation(relation: Relation): boolean {
+    return this.getOutgoing(relation.from, relation.relationType).some(r => r.to === relation.to);
+  }
+
+  listEntities(): Entity[] {
+    return this.entities(this.view.listEntities());
+  }
+
+  listRelations(): Relation[] {
+    return this.relations(this.view.listRelations());
+  }
+}
+
+// Configuration for a KnowledgeGraphManager instance
+export interface KnowledgeGraphManagerOptions extends GraphStorageOptions {
+  snapshots?: SnapshotOptions;
+  undoLimit?: number;    // Mutations kept for undo; 0 disables the operation log
+  mounts?: MountOptions[];
+  schema?: SchemaOptions;
+  softDelete?: boolean;  // Keep deleted items in the trash so they can be restored (default: true)
+}
+
+// The KnowledgeGraphManager class contains all operations to interact with the knowledge graph
+export class KnowledgeGraphManager {
+  private storage: GraphStorage;
+  private snapshots: SnapshotStore;
+  private operationLog: OperationLog;
+  private schema: SchemaRegistry;
+  private archive: JsonlGraphStorage;  // Where pruneExpired keeps what it removes
+  private trash?: TrashBin;           // Absent when soft deletes are disabled
+
+  // Read-only graphs merged into read results; mutations only reach `storage`
+  private mounts: { origin: string; storage: GraphStorage }[];
+
+  constructor(memoryFilePath: string, options: KnowledgeGraphManagerOptions = {}) {
+    this.storage = createGraphStorage(memoryFilePath, options);
+    this.snapshots = new SnapshotStore(memoryFilePath, options.snapshots);
+    this.operationLog = new OperationLog(`${memoryFilePath}.oplog.json`, options.undoLimit, options.lock);
+    this.schema = new SchemaRegistry(`${memoryFilePath}.schema.json`, options.schema, options.lock);
+    this.archive = new JsonlGraphStorage(`${memoryFilePath}.archive.jsonl`, { lock: options.lock });
+    if (options.softDelete ?? true) {
+      this.trash = new TrashBin(`${memoryFilePath}.trash.json`, options.lock);
+    }
+    this.mounts = (options.mounts ?? []).map(mount => ({
+      origin: mount.label ?? path.basename(mount.filePath).replace(/\.(jsonl?|db|sqlite3?)$/i, ''),
+      storage: createGraphStorage(mount.filePath, {
+        backend: /\.(db|sqlite3?)$/i.test(mount.filePath) ? 'sqlite' : 'jsonl',
+        lock: options.lock,
+        readOnly: true,
+      }),
+    }));
+  }
+
+  // ==================== Search Helper Methods ====================
+
+  /**
+   * Parse a query string into structured components with boolean operators
+   * Syntax: +required -excluded "exact phrase" optional
+   */
+  private parseQuery(query: string): ParsedQuery {
+    const result: ParsedQuery = { required: [], optional: [], excluded: [], phrases: [] };
+
+    // Extract quoted phrases first
+    const phraseRegex = /"([^"]+)"/g;
+    let phraseMatch;
+    let remainingQuery = query;
+    while ((phraseMatch = phraseRegex.exec(query)) !== null) {
+      result.phrases.push(phraseMatch[1].toLowerCase());
+      remainingQuery = remainingQuery.replace(phraseMatch[0], ' ');
+    }
+
+    // Parse remaining tokens
+    const tokens = remainingQuery.split(/\s+/).filter(t => t.length > 0);
+    for (const token of tokens) {
+      if (token.startsWith('+') && token.length > 1) {
+        result.required.push(token.slice(1).toLowerCase());
+      } else if (token.startsWith('-') && token.length > 1) {
+        result.excluded.push(token.slice(1).toLowerCase());
+      } else if (!token.startsWith('+') && !token.startsWith('-')) {
+        result.optional.push(token.toLowerCase());
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a query with field-specific prefixes (name:, type:, obs:, tag:)
+   */
+  private parseFieldQuery(query: string): FieldQuery {
+    const fieldQuery: FieldQuery = {};
+
+    // Match field:value patterns, handling quoted values
+    const fieldRegex = /(name|type|obs|tag):(?:"([^"]+)"|(\S+))/gi;
+    let match;
+    let remainingQuery = query;
+
+    while ((match = fieldRegex.exec(query)) !== null) {
+      const field = match[1].toLowerCase() as 'name' | 'type' | 'obs' | 'tag';
+      const value = match[2] || match[3]; // Quoted or unquoted value
+      fieldQuery[field] = this.parseQuery(value);
+      remainingQuery = remainingQuery.replace(match[0], ' ');
+    }
+
+    // Remaining query applies to all fields
+    remainingQuery = remainingQuery.trim();
+    if (remainingQuery) {
+      fieldQuery.all = this.parseQuery(remainingQuery);
+    }
+
+    return fieldQuery;
+  }
+
+  /**
+   * Check if text matches a parsed query
+   */
+  private matchesParsedQuery(text: string, parsed: ParsedQuery): boolean {
+    const lowerText = text.toLowerCase();
+
+    // All required terms must match
+    if (parsed.required.length > 0) {
+      if (parsed.required.some(term => !lowerText.includes(term))) return false;
+    }
+
+    // No excluded terms may match
+    if (parsed.excluded.some(term => lowerText.includes(term))) return false;
+
+    // All phrases must match exactly
+    if (parsed.phrases.some(phrase => !lowerText.includes(phrase))) return false;
+
+    // At least one optional term must match (if any exist and no required terms)
+    if (parsed.optional.length > 0 && parsed.required.length === 0 && parsed.phrases.length === 0) {
+      if (!parsed.optional.some(term => lowerText.includes(term))) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check if a set of tags matches a parsed query. Unlike text, tags match
+   * whole and case-insensitively, so tag:api does not match "rapid".
+   */
+  private matchesTags(tags: string[], parsed: ParsedQuery): boolean {
+    const tagSet = new Set(tags.map(t => t.toLowerCase()));
+
+    if (parsed.required.some(term => !tagSet.has(term))) return false;
+    if (parsed.excluded.some(term => tagSet.has(term))) return false;
+    if (parsed.phrases.some(phrase => !tagSet.has(phrase))) return false;
+    if (parsed.optional.length > 0 && parsed.required.length === 0 && parsed.phrases.length === 0) {
+      if (!parsed.optional.some(term => tagSet.has(term))) return false;
+    }
+
+    return true;
+  }
+
+  // Tags of one observation, or of all observations of the entity
+  private observationTags(entity: Entity, observation?: string): string[] {
+    const observations = observation === undefined ? entity.observations : [observation];
+    return observations.flatMap(o => entity.observationMeta?.[o]?.tags ?? []);
+  }
+
+  /**
+   * Check if an entity matches a field-specific query. The type field is
+   * matched against every name of the entity's type, such as its supertypes.
+   */
+  private entityMatchesFieldQuery(
+    entity: Entity,
+    fieldQuery: FieldQuery,
+    typeNames: (entityType: string) => string[] = entityType => [entityType]
+  ): boolean {
+    // Check field-specific queries
+    if (fieldQuery.name && !this.matchesParsedQuery(entity.name, fieldQuery.name)) return false;
+    if (fieldQuery.type && !this.matchesParsedQuery(typeNames(entity.entityType).join(' '), fieldQuery.type)) return false;
+    if (fieldQuery.obs) {
+      const allObs = entity.observations.join(' ');
+      if (!this.matchesParsedQuery(allObs, fieldQuery.obs)) return false;
+    }
+    if (fieldQuery.tag && !this.matchesTags(this.observationTags(entity), fieldQuery.tag)) return false;
+
+    // Check "all fields" query
+    if (fieldQuery.all) {
+      const allText = `${entity.name} ${entity.entityType} ${entity.observations.join(' ')}`;
+      if (!this.matchesParsedQuery(allText, fieldQuery.all)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Calculate Levenshtein distance between two strings
+   */
+  private levenshteinDistance(a: string, b: string): number {
+    const matrix: number[][] = [];
+
+    for (let i = 0; i <= a.length; i++) {
+      matrix[i] = [i];
+    }
+    for (let j = 0; j <= b.length; j++) {
+      matrix[0][j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j] + 1,      // deletion
+          matrix[i][j - 1] + 1,      // insertion
+          matrix[i - 1][j - 1] + cost // substitution
+        );
+      }
+    }
+
+    return matrix[a.length][b.length];
+  }
+
+  /**
+   * Check if text fuzzy-matches a query term
+   */
+  private fuzzyMatch(text: string, query: string, maxDistance?: number): boolean {
+    const words = text.toLowerCase().split(/\s+/);
+    const queryLower = query.toLowerCase();
+
+    // Calculate max distance based on query length if not provided
+    const distance = maxDistance ?? Math.max(1, Math.floor(queryLower.length / 4));
+
+    return words.some(word => {
+      // Exact substring match always wins
+      if (word.includes(queryLower) || queryLower.includes(word)) return true;
+      // Fuzzy match for similar-length words
+      if (Math.abs(word.length - queryLower.length) <= distance) {
+        return this.levenshteinDistance(word, queryLower) <= distance;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * The text index searches look terms up in. With mounted graphs, it combines
+   * the indexes each storage keeps for its own graph, which are only rebuilt
+   * when that graph changes.
+   */
+  private async textIndex(): Promise<TextIndex> {
+    if (this.mounts.length === 0) return this.storage.textIndex();
+    const storages = [this.storage, ...this.mounts.map(mount => mount.storage)];
+    return TextIndex.combine(await Promise.all(storages.map(storage => storage.textIndex())));
+  }
+
+  /**
+   * Names of the entities that can match a parsed query on the given fields, or
+   * undefined when none of its terms narrows the search (such as only excluded
+   * terms). A superset: matching is still decided by matchesParsedQuery.
+   */
+  private textCandidates(text: TextIndex, parsed: ParsedQuery, fields: TextField[]): Set<string> | undefined {
+    // Text containing a term contains every letter-and-digit run of it within its own terms
+    const containing = (queried: string): Set<string> | undefined => {
+      const terms = textTerms(queried);
+      if (terms.length === 0) return undefined;
+      return terms.map(term => text.entitiesContaining(term, fields))
+        .reduce((a, b) => new Set([...a].filter(name => b.has(name))));
+    };
+
+    const required = [...parsed.required, ...parsed.phrases].map(containing)
+      .filter((names): names is Set<string> => names !== undefined);
+    if (required.length > 0) {
+      return required.reduce((a, b) => new Set([...a].filter(name => b.has(name))));
+    }
+    if (parsed.required.length === 0 && parsed.phrases.length === 0 && parsed.optional.length > 0) {
+      const optional = parsed.optional.map(containing);
+      if (optional.some(names => names === undefined)) return undefined;
+      return new Set(optional.flatMap(names => [...names!]));
+    }
+    return undefined;
+  }
+
+  // The terms a field query is scored by, with the fields each applies to
+  private textQuery(fieldQuery: FieldQuery): TextQueryTerm[] {
+    const terms = new Map<string, TextQueryTerm>();
+    const add = (parsed: ParsedQuery | undefined, fields: TextField[]) => {
+      if (!parsed) return;
+      [...parsed.required, ...parsed.optional, ...parsed.phrases].flatMap(textTerms)
+        .forEach(term => terms.set(`${fields.join(',')}:${term}`, { term, fields }));
+    };
+    add(fieldQuery.name, ['name']);
+    add(fieldQuery.type, ['type']);
+    add(fieldQuery.obs, ['obs']);
+    add(fieldQuery.all, TEXT_FIELDS);
+    return Array.from(terms.values());
+  }
+
+  /**
+   * Collect relations touching a set of entities through the adjacency index.
+   * 'both' keeps relations whose endpoints are both in the set, 'any' keeps
+   * relations with at least one endpoint in the set.
+   */
+  private collectRelations(index: GraphView, names: Set<string>, mode: 'both' | 'any'): Relation[] {
+    // Keyed by endpoints and type, since backends may return fresh objects per lookup
+    const relations = new Map<string, Relation>();
+    const add = (rel: Relation) => relations.set(JSON.stringify([rel.from, rel.relationType, rel.to]), rel);
+    for (const name of names) {
+      for (const rel of index.getOutgoing(name)) {
+        if (mode === 'any' || names.has(rel.to)) add(rel);
+      }
+      if (mode === 'any') {
+        index.getIncoming(name).forEach(add);
+      }
+    }
+    return Array.from(relations.values());
+  }
+
+  // ==================== Name Resolution ====================
+
+  // 1 minus the edit distance relative to the longer of two normalized names
+  private nameSimilarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 0 : 1 - this.levenshteinDistance(a, b) / longest;
+  }
+
+  /**
+   * Resolve a name to an entity: by exact name, then by alias, then by
+   * normalized name or alias (ignoring case, whitespace and punctuation) if
+   * that identifies a single entity. Unresolved names come with suggestions.
+   */
+  private resolveName(index: GraphView, name: string): NameResolution {
+    if (index.hasEntity(name)) {
+      return { name, entityName: name, resolution: 'exact' };
+    }
+    const aliased = index.getEntityByAlias(name);
+    if (aliased) {
+      return { name, entityName: aliased.name, resolution: 'alias' };
+    }
+
+    const key = normalizeName(name);
+    const normalized = key ? index.getEntitiesByNameKey(key) : [];
+    if (normalized.length === 1) {
+      return { name, entityName: normalized[0].name, resolution: 'normalized' };
+    }
+    if (normalized.length > 1) {
+      // Ambiguous: let the caller choose
+      return { name, suggestions: normalized.map(e => e.name) };
+    }
+
+    // Only names that resolve to nothing are compared with every entity
+    const suggestions = index.listEntities()
+      .map(e => {
+        const candidate = normalizeName(e.name);
+        const similarity = this.nameSimilarity(key, candidate);
+        // Containment ("auth" in "authservice") counts as close whatever the lengths
+        const contains = key !== '' && candidate !== '' && (candidate.includes(key) || key.includes(candidate));
+        return { name: e.name, similarity: contains ? Math.max(0.5, similarity) : similarity };
+      })
+      .filter(s => s.similarity >= 0.5)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_NAME_SUGGESTIONS)
+      .map(s => s.name);
+    return { name, ...(suggestions.length > 0 && { suggestions }) };
+  }
+
+  private resolveEntity(index: GraphView, name: string): Entity | undefined {
+    const { entityName } = this.resolveName(index, name);
+    return entityName === undefined ? undefined : index.getEntity(entityName);
+  }
+
+  // A relation with its endpoints resolved; unresolved endpoints are kept as given
+  private resolveRelation<R extends Relation>(index: GraphView, relation: R): R {
+    const endpoint = (name: string) => this.resolveEntity(index, name)?.name ?? name;
+    return { ...relation, from: endpoint(relation.from), to: endpoint(relation.to) };
+  }
+
+  // The error for a name that did not resolve (or, where exact names are required, did not match), suggesting close matches
+  private entityNotFound(index: GraphView, name: string): Error {
+    const { entityName, suggestions } = this.resolveName(index, name);
+    const candidates = entityName !== undefined ? [entityName] : suggestions;
+    const hint = candidates ? ` (did you mean ${candidates.join(', ')}?)` : '';
+    return new Error(`Entity with name ${name} not found${hint}`);
+  }
+
+  /**
+   * Report how names resolve to entities, including which rule applied and,
+   * for names that do not resolve, the closest entity names.
+   */
+  async resolveNames(names: string[]): Promise<NameResolution[]> {
+    const index = await this.readView({ includeArchived: true });
+    return names.map(name => this.resolveName(index, name));
+  }
+
+  // ==================== Schema Validation ====================
+
+  // Declared types close to an undeclared one, e.g. Module for "module" or "Modules"
+  private typeSuggestions(type: string, declared: string[]): string[] {
+    const key = normalizeName(type);
+    return declared
+      .map(name => ({ name, similarity: this.nameSimilarity(key, normalizeName(name)) }))
+      .filter(s => s.similarity >= 0.5)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_NAME_SUGGESTIONS)
+      .map(s => s.name);
+  }
+
+  private undeclaredType(kind: 'Entity' | 'Relation', type: string, declared: string[]): string {
+    const suggestions = this.typeSuggestions(type, declared);
+    const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '';
+    return `${kind} type "${type}" is not defined in the schema${hint}`;
+  }
+
+  private entityViolations(schema: GraphSchema, entity: Pick<Entity, 'name' | 'entityType' | 'observations'>): SchemaViolation[] {
+    if (schema.entityTypes.length === 0) return [];
+    const definition = schema.entityTypes.find(d => d.name === entity.entityType);
+    if (!definition) {
+      const declared = schema.entityTypes.map(d => d.name);
+      return [{
+        rule: 'entity_type',
+        entityName: entity.name,
+        message: `${entity.name}: ${this.undeclaredType('Entity', entity.entityType, declared)}`,
+      }];
+    }
+    return (definition.requiredObservationPrefixes ?? [])
+      .filter(prefix => !entity.observations.some(o => o.toLowerCase().startsWith(prefix.toLowerCase())))
+      .map(prefix => ({
+        rule: 'observation_prefix' as const,
+        entityName: entity.name,
+        message: `${entity.name}: entities of type ${entity.entityType} need an observation starting with "${prefix}"`,
+      }));
+  }
+
+  // Endpoints that are not in the graph are not checked against the domain and range
+  private relationViolations(schema: GraphSchema, relation: Relation, view: GraphView): SchemaViolation[] {
+    if (schema.relationTypes.length === 0) return [];
+    const { from, to, relationType } = relation;
+    const label = `${from} -[${relationType}]-> ${to}`;
+    const definition = schema.relationTypes.find(d => d.name === relationType);
+    const inverseOf = definition ? undefined : schema.relationTypes.find(d => d.inverse === relationType);
+    if (!definition && !inverseOf) {
+      const declared = schema.relationTypes.flatMap(d => d.inverse ? [d.name, d.inverse] : [d.name]);
+      return [{
+        rule: 'relation_type',
+        relation: { from, to, relationType },
+        message: `${label}: ${this.undeclaredType('Relation', relationType, declared)}`,
+      }];
+    }
+    // A relation named by an inverse has the domain and range of the declared type swapped
+    const { domain, range } = definition ?? { domain: inverseOf!.range, range: inverseOf!.domain };
+    const endpoints = [
+      { rule: 'domain' as const, role: 'source', name: from, allowed: domain },
+      { rule: 'range' as const, role: 'target', name: to, allowed: range },
+    ];
+    return endpoints.flatMap(({ rule, role, name, allowed }) => {
+      const entityType = view.getEntity(name)?.entityType;
+      if (!allowed?.length || entityType === undefined) return [];
+      // Subtypes of an allowed type are allowed too
+      if (typeClosure(schema, entityType, 'supertypes').some(t => allowed.includes(t))) return [];
+      return [{
+        rule,
+        relation: { from, to, relationType },
+        message: `${label}: ${relationType} needs a ${role} of type ${allowed.join(' or ')}, not ${entityType}`,
+      }];
+    });
+  }
+
+  // An entity and every relation it takes part in, as they are in the view
+  private entityAndRelationViolations(schema: GraphSchema, view: GraphView, name: string): SchemaViolation[] {
+    return [
+      ...this.entityViolations(schema, view.getEntity(name)!),
+      ...relationsOf(view, name).flatMap(relation => this.relationViolations(schema, relation, view)),
+    ];
+  }
+
+  // Refuse a write in strict mode
+  private rejectViolations(violations: SchemaViolation[]): void {
+    if (violations.length > 0) {
+      throw new Error(`Schema violation: ${violations.map(v => v.message).join('; ')}`);
+    }
+  }
+
+  /**
+   * The schema in effect: the configured schema file merged with the types
+   * defined through defineEntityType and defineRelationType.
+   */
+  async getSchema(): Promise<GraphSchema> {
+    return this.schema.load();
+  }
+
+  /**
+   * Declare an entity type, replacing an earlier definition with the same
+   * name. Once any entity type is declared, undeclared types are violations.
+   */
+  async defineEntityType(definition: EntityTypeDefinition): Promise<EntityTypeDefinition> {
+    if (definition.name.trim() === '') throw new Error('Entity type name must not be empty');
+    await this.schema.defineEntityType(definition);
+    return definition;
+  }
+
+  /**
+   * Declare a relation type with the entity types allowed at either end and
+   * how it reads in reverse, replacing an earlier definition with the same
+   * name. Once any relation type is declared, undeclared types are violations.
+   */
+  async defineRelationType(definition: RelationTypeDefinition): Promise<RelationTypeDefinition> {
+    if (definition.name.trim() === '') throw new Error('Relation type name must not be empty');
+    if (definition.inverse !== undefined && (definition.symmetric || definition.inverse === definition.name)) {
+      throw new Error(`Relation type ${definition.name} cannot have an inverse and be symmetric`);
+    }
+    await this.schema.defineRelationType(definition);
+    return definition;
+  }
+
+  /**
+   * Declare the direct subtypes of an entity type, replacing those declared
+   * before; an empty list removes them. Filters and type: queries for a type
+   * then include its subtypes, transitively.
+   */
+  async defineTypeHierarchy(parent: string, subtypes: string[]): Promise<{ parent: string; subtypes: string[] }> {
+    if (parent.trim() === '') throw new Error('Entity type name must not be empty');
+    const schema = await this.schema.load();
+    const ancestors = typeClosure(schema, parent, 'supertypes').map(t => t.toLowerCase());
+    const cyclic = subtypes.find(subtype => ancestors.includes(subtype.toLowerCase()));
+    if (cyclic !== undefined) {
+      throw new Error(`${cyclic} cannot be a subtype of ${parent}: the type hierarchy would contain a cycle`);
+    }
+    await this.schema.defineSubtypes(parent, subtypes);
+    return { parent, subtypes };
+  }
+
+  /**
+   * The schema violations of the given entities and relations, as stored in the
+   * graph. With withRelations, the relations of the given entities are checked too.
+   */
+  async checkSchema(
+    items: { entities?: Entity[]; relations?: Relation[] },
+    options: { withRelations?: boolean } = {}
+  ): Promise<SchemaViolation[]> {
+    const schema = await this.schema.load();
+    const view = await this.readView({ includeArchived: true });
+    const relations = new Set([
+      ...(items.relations ?? []),
+      ...(options.withRelations ? (items.entities ?? []).flatMap(entity => relationsOf(view, entity.name)) : []),
+    ]);
+    return [
+      ...(items.entities ?? []).flatMap(entity => this.entityViolations(schema, entity)),
+      ...[...relations].flatMap(relation => this.relationViolations(schema, relation, view)),
+    ];
+  }
+
+  /**
+   * Check the whole graph against the schema, listing every violation.
+   */
+  async validateGraph(): Promise<{ mode: SchemaMode; violations: SchemaViolation[] }> {
+    const schema = await this.schema.load();
+    const view = await this.readView({ includeArchived: true });
+    return {
+      mode: schema.mode,
+      violations: [
+        ...view.listEntities().flatMap(entity => this.entityViolations(schema, entity)),
+        ...view.listRelations().flatMap(relation => this.relationViolations(schema, relation, view)),
+      ],
+    };
+  }
+
+  // ==================== Time Filter Helpers ====================
+
+  /**
+   * Parse a since/until/asOf/before bound to epoch milliseconds. A plain date
+   * (YYYY-MM-DD) used as `until` or `asOf` covers that whole day.
+   */
+  private parseTimeBound(value: string | undefined, bound: 'since' | 'until' | 'asOf' | 'before'): number | undefined {
+    if (value === undefined) return undefined;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid ${bound} date "${value}" (expected an ISO 8601 date or timestamp)`);
+    }
+    return (bound === 'until' || bound === 'asOf') && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  }
+
+  /**
+   * When an observation was recorded: its metadata timestamp, else a leading
+   * [YYYY-MM-DD] prefix as written by hand, else the entity's creation time.
+   */
+  private observationTime(entity: Entity, observation: string): number | undefined {
+    const recorded = entity.observationMeta?.[observation]?.createdAt
+      ?? /^\[(\d{4}-\d{2}-\d{2})\]/.exec(observation)?.[1]
+      ?? entity.createdAt;
+    return recorded ? Date.parse(recorded) : undefined;
+  }
+
+  /**
+   * Whether a timestamp lies within the bounds; untimed items never match a bound.
+   */
+  private withinTime(time: number | undefined, since?: number, until?: number): boolean {
+    if (since === undefined && until === undefined) return true;
+    if (time === undefined || Number.isNaN(time)) return false;
+    return (since === undefined || time >= since) && (until === undefined || time <= until);
+  }
+
+  // An entity matches if it was changed at or after `since` and already existed at `until`
+  private entityWithinTime(entity: Entity, since?: number, until?: number): boolean {
+    const created = entity.createdAt ? Date.parse(entity.createdAt) : undefined;
+    const updated = entity.updatedAt ? Date.parse(entity.updatedAt) : created;
+    return this.withinTime(updated, since, undefined) && this.withinTime(created, undefined, until);
+  }
+
+  // ==================== Core Data Methods ====================
+
+  /**
+   * The time a read looks at: now, or the asOf date, as of which items that
+   * were only recorded later are left out as well.
+   */
+  private pointInTime(options: ReadOptions): PointInTime {
+    const include = { includeExpired: options.includeExpired ?? false, includeArchived: options.includeArchived ?? false };
+    if (options.asOf === undefined) return { time: Date.now(), recorded: false, ...include };
+    return { time: this.parseTimeBound(options.asOf, 'asOf')!, recorded: true, ...include };
+  }
+
+  private async loadGraph(options: ReadOptions = {}): Promise<KnowledgeGraph> {
+    if (this.mounts.length === 0) {
+      return graphAt(await this.storage.loadGraph(), this.pointInTime(options));
+    }
+    const view = await this.readView(options);
+    return { entities: view.listEntities(), relations: view.listRelations() };
+  }
+
+  // The writable graph, merged with the mounted read-only graphs when there are any
+  private async storedView(): Promise<GraphView> {
+    if (this.mounts.length === 0) return this.storage.view();
+    return new FederatedGraphView([
+      { origin: PRIMARY_ORIGIN, view: await this.storage.view() },
+      ...await Promise.all(this.mounts.map(async mount => ({ origin: mount.origin, view: await mount.storage.view() }))),
+    ]);
+  }
+
+  /**
+   * Lookups for read operations: the stored graphs, with only the items valid
+   * at the requested time (by default, now) and, unless requested, not expired.
+   */
+  private async readView(options: ReadOptions = {}): Promise<GraphView> {
+    return new TemporalGraphView(await this.storedView(), this.pointInTime(options));
+  }
+
+  /**
+   * Fold incremental writes (such as the JSONL journal) back into compact storage.
+   */
+  async compact(): Promise<void> {
+    await this.storage.compact();
+  }
+
+  async close(): Promise<void> {
+    await this.storage.close();
+    await Promise.all(this.mounts.map(mount => mount.storage.close()));
+  }
+
+  /**
+   * Snapshot the graph ahead of a mutation. Destructive operations pass their
+   * name and are always snapshotted; others only once the interval has passed.
+   */
+  private async snapshotBefore(reason?: string): Promise<void> {
+    if (reason === undefined) {
+      if (!(await this.snapshots.isDue())) return;
+      reason = 'interval';
+    }
+    await this.takeSnapshot(reason);
+  }
+
+  /**
+   * Run a storage mutation and record it in the operation log together with
+   * the operations that revert it. beforeCommit may return the trash change
+   * made along with the mutation, which is recorded with it.
+   */
+  private async mutate<T>(
+    label: string,
+    fn: MutationCallback<T>,
+    beforeCommit?: (result: T) => Promise<OperationTrashChange | void>
+  ): Promise<T> {
+    const operations: GraphOperation[] = [];
+    const inverse: GraphOperation[] = [];
+    let trash: OperationTrashChange | undefined;
+    const result = await this.storage.mutate((view, apply) => fn(view, operation => {
+      if (this.operationLog.enabled) {
+        // Later operations must be reverted first
+        inverse.unshift(...invertOperation(view, operation));
+        operations.push(operation);
+      }
+      apply(operation);
+    }), beforeCommit && (async result => { trash = (await beforeCommit(result)) || undefined; }));
+    if (operations.length > 0) {
+      await this.operationLog.record({ label, timestamp: new Date().toISOString(), operations, inverse, ...(trash && { trash }) });
+    }
+    return result;
+  }
+
+  /**
+   * Check a validFrom/validTo pair, returning the dates that were given.
+   */
+  private static validityWindow(label: string, validFrom?: string, validTo?: string): { validFrom?: string; validTo?: string } {
+    for (const [field, value] of [['validFrom', validFrom], ['validTo', validTo]]) {
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        throw new Error(`Invalid ${field} date "${value}" of ${label} (expected an ISO 8601 date or timestamp)`);
+      }
+    }
+    if (validFrom !== undefined && validTo !== undefined && Date.parse(validTo) <= Date.parse(validFrom)) {
+      throw new Error(`validTo of ${label} must be later than its validFrom`);
+    }
+    return { ...(validFrom !== undefined && { validFrom }), ...(validTo !== undefined && { validTo }) };
+  }
+
+  /**
+   * Resolve an expiry given as an ISO 8601 date, or as a duration such as 12h
+   * counted from `from`, to the timestamp stored as expiresAt.
+   */
+  private static expiryDate(label: string, expires: string, from: string): string {
+    const duration = /^(\d+)\s*(m|h|d|w)$/i.exec(expires.trim());
+    if (duration) {
+      const unit = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[duration[2].toLowerCase() as 'm' | 'h' | 'd' | 'w'];
+      return new Date(Date.parse(from) + Number(duration[1]) * unit).toISOString();
+    }
+    const time = Date.parse(expires);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid expiry "${expires}" of ${label} (expected an ISO 8601 date or a duration such as 12h, 7d or 2w)`);
+    }
+    return new Date(time).toISOString();
+  }
+
+  /**
+   * Split observation inputs into their texts and the metadata recorded for
+   * them; fields given on an observation take precedence over the write's source.
+   */
+  private static normalizeObservations(
+    inputs: ObservationInput[],
+    createdAt: string,
+    source?: string
+  ): { observations: string[]; meta: Record<string, ObservationMeta> } {
+    const observations: string[] = [];
+    const meta: Record<string, ObservationMeta> = {};
+    for (const input of inputs) {
+      const { text, tags, confidence, source: observationSource = source, validFrom, validTo, expires } =
+        typeof input === 'string' ? { text: input } : input;
+      if (confidence !== undefined && !(confidence >= 0 && confidence <= 1)) {
+        throw new Error(`Confidence of observation "${text}" must be between 0 and 1`);
+      }
+      observations.push(text);
+      meta[text] = {
+        createdAt,
+        ...(observationSource !== undefined && { source: observationSource }),
+        ...(tags !== undefined && tags.length > 0 && { tags: Array.from(new Set(tags)) }),
+        ...(confidence !== undefined && { confidence }),
+        ...KnowledgeGraphManager.validityWindow(`observation "${text}"`, validFrom, validTo),
+        ...(expires !== undefined && {
+          expiresAt: KnowledgeGraphManager.expiryDate(`observation "${text}"`, expires, createdAt),
+        }),
+      };
+    }
+    return { observations, meta };
+  }
+
+  async createEntities(entities: EntityInput[], options: WriteOptions = {}): Promise<Entity[]> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    const schema = await this.schema.load();
+    return this.mutate('createEntities', (view, apply) => {
+      if (schema.mode === 'strict') {
+        const pending = entities.filter((e, i) => !view.hasEntity(e.name) && entities.findIndex(o => o.name === e.name) === i);
+        this.rejectViolations(pending.flatMap(entity => this.entityViolations(schema, {
+          ...entity,
+          observations: entity.observations.map(o => typeof o === 'string' ? o : o.text),
+        })));
+      }
+      const newEntities: Entity[] = [];
+      for (const { expires, ...entity } of entities) {
+        if (!view.hasEntity(entity.name)) {
+          const source = entity.source ?? options.source;
+          const createdAt = entity.createdAt ?? now;
+          const { observations, meta } = KnowledgeGraphManager.normalizeObservations(entity.observations, createdAt, source);
+          const created: Entity = {
+            ...entity,
+            observations,
+            createdAt,
+            updatedAt: entity.updatedAt ?? now,
+            ...(source !== undefined && { source }),
+            ...(expires !== undefined && {
+              expiresAt: KnowledgeGraphManager.expiryDate(`entity "${entity.name}"`, expires, createdAt),
+            }),
+            observationMeta: { ...meta, ...entity.observationMeta },
+          };
+          apply({ op: 'add_entity', entity: created });
+          newEntities.push(created);
+        }
+      }
+      return newEntities;
+    });
+  }
+
+  async createRelations(relations: Relation[], options: WriteOptions = {}): Promise<Relation[]> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    const schema = await this.schema.load();
+    const inverses = relationInverses(schema);
+    return this.mutate('createRelations', (view, apply) => {
+      if (schema.mode === 'strict') {
+        this.rejectViolations(relations
+          .filter(relation => !view.hasRelation(relation))
+          .flatMap(relation => this.relationViolations(schema, relation, view)));
+      }
+      const newRelations: Relation[] = [];
+      for (const relation of relations) {
+        // A relation whose reverse reading is stored already exists
+        const reverse = reverseRelation(relation, inverses);
+        if (!view.hasRelation(relation) && !(reverse && view.hasRelation(reverse))) {
+          const source = relation.source ?? options.source;
+          KnowledgeGraphManager.validityWindow(
+            `relation ${relation.from} -[${relation.relationType}]-> ${relation.to}`, relation.validFrom, relation.validTo
+          );
+          const created: Relation = {
+            ...relation,
+            createdAt: relation.createdAt ?? now,
+            updatedAt: relation.updatedAt ?? now,
+            ...(source !== undefined && { source }),
+          };
+          apply({ op: 'add_relation', relation: created });
+          newRelations.push(created);
+        }
+      }
+      return newRelations;
+    });
+  }
+
+  /**
+   * Set properties of an existing relation. Properties are merged into the
+   * current ones, and a null value removes a property; with replace, the given
+   * properties replace all current ones.
+   */
+  async updateRelation(
+    relation: Relation,
+    properties: Record<string, unknown>,
+    options: { replace?: boolean; validFrom?: string; validTo?: string } = {}
+  ): Promise<Relation> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    return this.mutate('updateRelation', (view, apply) => {
+      const existing = findRelation(view, this.resolveRelation(view, relation));
+      if (!existing) {
+        throw new Error(`Relation ${relation.from} -[${relation.relationType}]-> ${relation.to} not found`);
+      }
+      const merged = Object.entries({ ...(options.replace ? {} : existing.properties), ...properties })
+        .filter(([, value]) => value !== null);
+      const updated: Relation = {
+        ...existing,
+        properties: Object.fromEntries(merged),
+        ...KnowledgeGraphManager.validityWindow(
+          `relation ${existing.from} -[${existing.relationType}]-> ${existing.to}`,
+          options.validFrom ?? existing.validFrom,
+          options.validTo ?? existing.validTo
+        ),
+        updatedAt: now,
+      };
+      if (merged.length === 0) delete updated.properties;
+      apply({ op: 'update_relation', relation: updated });
+      return updated;
+    });
+  }
+
+  async addObservations(
+    observations: { entityName: string; contents: ObservationInput[] }[],
+    options: WriteOptions = {}
+  ): Promise<{ entityName: string; addedObservations: string[] }[]> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    return this.mutate('addObservations', (view, apply) => {
+      return observations.map(o => {
+        const entity = this.resolveEntity(view, o.entityName);
+        if (!entity) {
+          throw this.entityNotFound(view, o.entityName);
+        }
+        const { observations: contents, meta } = KnowledgeGraphManager.normalizeObservations(o.contents, now, options.source);
+        const newObservations = contents.filter(content => !entity.observations.includes(content));
+        if (newObservations.length > 0) {
+          apply({
+            op: 'add_observations',
+            entityName: entity.name,
+            observations: newObservations,
+            meta: Object.fromEntries(newObservations.map(text => [text, meta[text]])),
+            updatedAt: now,
+          });
+        }
+        return { entityName: o.entityName, addedObservations: newObservations };
+      });
+    });
+  }
+
+  /**
+   * Run a delete, moving the items it removes to the trash unless soft deletes
+   * are disabled. The trash entry is written before the delete is committed,
+   * with both the trash and the graph locked: a failure in between leaves an
+   * entry whose items are still in the graph, never deleted items without one.
+   * Returns the trash entry id, if anything was removed.
+   */
+  private async softDelete(
+    operation: TrashEntry['operation'],
+    label: string,
+    fn: MutationCallback<Pick<TrashEntry, 'entities' | 'observations' | 'relations'>>
+  ): Promise<string | undefined> {
+    if (!this.trash) {
+      await this.mutate(label, fn);
+      return undefined;
+    }
+    return this.trash.adding(async add => {
+      let added: TrashEntry | undefined;
+      await this.mutate(label, fn, async removed => {
+        if (removed.entities.length + removed.observations.length + removed.relations.length === 0) return;
+        added = await add({ deletedAt: new Date().toISOString(), operation, ...removed });
+        return { added };
+      });
+      return added?.id;
+    });
+  }
+
+  /**
+   * Delete entities with their relations. Returns the id of the trash entry
+   * holding them, when soft deletes are enabled.
+   */
+  async deleteEntities(entityNames: string[]): Promise<string | undefined> {
+    await this.snapshotBefore('delete_entities');
+    return this.softDelete('delete_entities', 'deleteEntities', (view, apply) => {
+      const entities: Entity[] = [];
+      const relations: Relation[] = [];
+      // Exact names only, so that a near miss cannot delete another entity
+      for (const name of entityNames) {
+        relations.push(...relationsOf(view, name).map(relation => ({ ...relation })));
+        const entity = view.getEntity(name);
+        if (entity) {
+          entities.push({ ...entity, observations: [...entity.observations] });
+          apply({ op: 'delete_entity', name });
+        }
+        // Relations may dangle without a matching entity; cascade those as well
+        [...view.getOutgoing(name), ...view.getIncoming(name)]
+          .forEach(relation => apply({ op: 'delete_relation', relation }));
+      }
+      return { entities, observations: [], relations };
+    });
+  }
+
+  async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<string | undefined> {
+    await this.snapshotBefore('delete_observations');
+    const now = new Date().toISOString();
+    return this.softDelete('delete_observations', 'deleteObservations', (view, apply) => {
+      const observations: TrashEntry['observations'] = [];
+      deletions.forEach(d => {
+        const entity = view.getEntity(d.entityName);
+        const deleted = entity?.observations.filter(o => d.observations.includes(o)) ?? [];
+        if (entity && deleted.length > 0) {
+          const meta = Object.fromEntries(deleted.flatMap(o => entity.observationMeta?.[o] ? [[o, entity.observationMeta[o]]] : []));
+          observations.push({ entityName: entity.name, observations: deleted, meta });
+          apply({ op: 'delete_observations', entityName: entity.name, observations: d.observations, updatedAt: now });
+        }
+      });
+      return { entities: [], observations, relations: [] };
+    });
+  }
+
+  /**
+   * Close observations instead of deleting them: they keep their place with a
+   * validTo date (default: now), so current reads leave them out while reads
+   * as of an earlier date still see them.
+   */
+  async retireObservations(
+    retirements: { entityName: string; observations: string[] }[],
+    options: { validTo?: string } = {}
+  ): Promise<ObservationRetireResult[]> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    const validTo = options.validTo ?? now;
+    return this.mutate('retireObservations', (view, apply) => {
+      return retirements.map(r => {
+        const entity = this.resolveEntity(view, r.entityName);
+        if (!entity) {
+          throw this.entityNotFound(view, r.entityName);
+        }
+        const requested = Array.from(new Set(r.observations));
+        const retired = requested.filter(o => entity.observations.includes(o));
+        if (retired.length > 0) {
+          const meta = { ...entity.observationMeta };
+          for (const observation of retired) {
+            meta[observation] = {
+              ...meta[observation],
+              ...KnowledgeGraphManager.validityWindow(`observation "${observation}"`, meta[observation]?.validFrom, validTo),
+            };
+          }
+          apply({ op: 'set_observations', entityName: entity.name, observations: [...entity.observations], meta, updatedAt: now });
+        }
+        return { entityName: entity.name, retired, notFound: requested.filter(o => !retired.includes(o)), validTo };
+      });
+    });
+  }
+
+  // The distinct entities named, throwing for names that do not resolve
+  private entitiesNamed(view: GraphView, entityNames: string[]): Entity[] {
+    const entities = new Map<string, Entity>();
+    for (const name of entityNames) {
+      const entity = this.resolveEntity(view, name);
+      if (!entity) {
+        throw this.entityNotFound(view, name);
+      }
+      entities.set(entity.name, entity);
+    }
+    return [...entities.values()];
+  }
+
+  // The relations of the given entities whose endpoints are both unarchived
+  private unarchivedRelations(view: GraphView, entityNames: string[]): Relation[] {
+    const relations = new Map<string, Relation>();
+    for (const relation of entityNames.flatMap(name => relationsOf(view, name))) {
+      if ([relation.from, relation.to].every(name => view.getEntity(name)?.archivedAt === undefined)) {
+        relations.set(JSON.stringify([relation.from, relation.relationType, relation.to]), relation);
+      }
+    }
+    return [...relations.values()];
+  }
+
+  /**
+   * Archive entities: they are kept with their observations and relations but
+   * left out of reads unless archived entities are included. Returns the
+   * archived entities and the relations hidden with them.
+   */
+  async archiveEntities(entityNames: string[]): Promise<KnowledgeGraph> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    return this.mutate('archiveEntities', (view, apply) => {
+      const names = this.entitiesNamed(view, entityNames).filter(e => e.archivedAt === undefined).map(e => e.name);
+      const relations = this.unarchivedRelations(view, names);
+      names.forEach(name => apply({ op: 'set_archived', name, archivedAt: now, updatedAt: now }));
+      return { entities: names.map(name => ({ ...view.getEntity(name)! })), relations };
+    });
+  }
+
+  /**
+   * Bring archived entities back into reads. Returns the entities and the
+   * relations that became visible again.
+   */
+  async unarchiveEntities(entityNames: string[]): Promise<KnowledgeGraph> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    return this.mutate('unarchiveEntities', (view, apply) => {
+      const names = this.entitiesNamed(view, entityNames).filter(e => e.archivedAt !== undefined).map(e => e.name);
+      names.forEach(name => apply({ op: 'set_archived', name, updatedAt: now }));
+      return { entities: names.map(name => ({ ...view.getEntity(name)! })), relations: this.unarchivedRelations(view, names) };
+    });
+  }
+
+  /**
+   * Remove the entities and observations whose expiry has passed, together
+   * with the relations of the removed entities. In archive mode they are first
+   * added to <memory file>.archive.jsonl, which can be mounted to read them.
+   */
+  async pruneExpired(options: { mode?: 'delete' | 'archive' } = {}): Promise<PruneResult> {
+    const mode = options.mode ?? 'archive';
+    const now = new Date().toISOString();
+    const result: PruneResult = { mode, entities: [], observations: [], relations: [] };
+
+    const candidates = KnowledgeGraphManager.expiredItems(await this.storage.view(), Date.parse(now));
+    if (candidates.entities.length === 0 && candidates.observations.length === 0) return result;
+    // Taken now, as the stored entities change in place under later writes
+    const archivedNames = new Set(candidates.entities.map(e => e.name));
+    const archivedObservations = new Map<string, Set<string>>([
+      ...candidates.entities.map(e => [e.name, new Set(e.observations)] as const),
+      ...candidates.observations.map(group => [group.entity.name, new Set(group.observations)] as const),
+    ]);
+    const relationKey = (r: Relation) => JSON.stringify([r.from, r.relationType, r.to]);
+    const archivedRelations = new Set(candidates.relations.map(relationKey));
+
+    if (mode === 'archive') {
+      // Archived before removal, so a failed write loses nothing
+      await this.archive.mutate((view, apply) => {
+        // Observations pruned from an entity that was archived before join it
+        const keep = (entity: Entity, pruned: string[]) => {
+          const archived = view.getEntity(entity.name);
+          const kept = pruned.filter(o => !archived?.observations.includes(o));
+          const meta = Object.fromEntries(kept.flatMap(o => entity.observationMeta?.[o] ? [[o, entity.observationMeta[o]]] : []));
+          if (!archived) {
+            apply({ op: 'add_entity', entity: { ...entity, observations: kept, observationMeta: meta } });
+          } else if (kept.length > 0) {
+            apply({ op: 'add_observations', entityName: entity.name, observations: kept, meta });
+          }
+        };
+        candidates.entities.forEach(entity => keep(entity, entity.observations));
+        candidates.observations.forEach(group => keep(group.entity, group.observations));
+        candidates.relations.filter(r => !view.hasRelation(r)).forEach(relation => apply({ op: 'add_relation', relation }));
+      });
+      result.archivePath = this.archive.filePath;
+    }
+
+    await this.snapshotBefore('prune_expired');
+    await this.mutate('pruneExpired', (view, apply) => {
+      // Judged again under the lock, so items changed since the archive was
+      // written are pruned by their current state
+      let { entities, observations } = KnowledgeGraphManager.expiredItems(view, Date.parse(now));
+      if (mode === 'archive') {
+        // Only what the archive holds as it is now; the rest waits for the next prune
+        entities = entities.filter(entity =>
+          archivedNames.has(entity.name) &&
+          entity.observations.every(o => archivedObservations.get(entity.name)!.has(o)) &&
+          relationsOf(view, entity.name).every(r => archivedRelations.has(relationKey(r)))
+        );
+        observations = observations
+          .map(group => ({ entity: group.entity, observations: group.observations.filter(o => archivedObservations.get(group.entity.name)?.has(o)) }))
+          .filter(group => group.observations.length > 0);
+      }
+
+      result.entities = entities.map(e => e.name);
+      result.relations = Array.from(new Set(entities.flatMap(entity => relationsOf(view, entity.name))), r => ({ ...r }));
+      result.observations = observations.map(group => ({ entityName: group.entity.name, observations: group.observations }));
+      // Deleting an entity cascades to its relations
+      result.entities.forEach(name => apply({ op: 'delete_entity', name }));
+      for (const group of result.observations) {
+        apply({ op: 'delete_observations', entityName: group.entityName, observations: group.observations, updatedAt: now });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * The entities whose expiry has passed with their relations, and the expired
+   * observations of the other entities.
+   */
+  private static expiredItems(view: GraphView, now: number): {
+    entities: Entity[];
+    relations: Relation[];
+    observations: { entity: Entity; observations: string[] }[];
+  } {
+    const expired = (item: { expiresAt?: string }) => item.expiresAt !== undefined && Date.parse(item.expiresAt) <= now;
+    const entities = view.listEntities().filter(expired);
+    const names = new Set(entities.map(e => e.name));
+    return {
+      entities,
+      relations: view.listRelations().filter(r => names.has(r.from) || names.has(r.to)),
+      observations: view.listEntities()
+        .filter(entity => !names.has(entity.name))
+        .map(entity => ({ entity, observations: entity.observations.filter(o => expired(entity.observationMeta?.[o] ?? {})) }))
+        .filter(group => group.observations.length > 0),
+    };
+  }
+
+  /**
+   * Replace observations in place, keeping their position. Replacements that
+   * match no observation, or would duplicate another one, are reported as failed.
+   * Tags and confidence of a replaced observation are kept unless the new one
+   * provides its own.
+   */
+  async updateObservations(
+    updates: { entityName: string; updates: ObservationUpdate[] }[],
+    options: WriteOptions = {}
+  ): Promise<ObservationUpdateResult[]> {
+    await this.snapshotBefore('update_observations');
+    const now = new Date().toISOString();
+    return this.mutate('updateObservations', (view, apply) => {
+      return updates.map(u => {
+        const entity = this.resolveEntity(view, u.entityName);
+        if (!entity) {
+          throw this.entityNotFound(view, u.entityName);
+        }
+        const observations = [...entity.observations];
+        const meta = { ...entity.observationMeta };
+        const result: ObservationUpdateResult = { entityName: u.entityName, updated: [], failed: [] };
+
+        for (const update of u.updates) {
+          const { observation, index } = update;
+          const position = index ?? (observation !== undefined ? observations.indexOf(observation) : -1);
+          const fail = (reason: string) => result.failed.push({
+            ...(observation !== undefined && { observation }),
+            ...(index !== undefined && { index }),
+            reason,
+          });
+
+          if (observation === undefined && index === undefined) {
+            fail('either observation or index is required');
+          } else if (position < 0 || position >= observations.length || !Number.isInteger(position)) {
+            fail(index !== undefined ? `index ${index} is out of range` : 'no observation with this exact text');
+          } else if (observation !== undefined && observations[position] !== observation) {
+            fail(`observation at index ${position} does not match the given text`);
+          } else {
+            const previous = observations[position];
+            const { observations: [text], meta: { [text]: written } } =
+              KnowledgeGraphManager.normalizeObservations([update.newObservation], now, options.source);
+            if (text !== previous && observations.includes(text)) {
+              fail('the new text duplicates another observation');
+              continue;
+            }
+            observations[position] = text;
+            const kept = meta[previous];
+            delete meta[previous];
+            meta[text] = { ...kept, ...written };
+            result.updated.push({ index: position, observation: text });
+          }
+        }
+
+        if (result.updated.length > 0) {
+          apply({ op: 'set_observations', entityName: entity.name, observations, meta, updatedAt: now });
+        }
+        return result;
+      });
+    });
+  }
+
+  /**
+   * Apply a regular expression substitution to the observations of the given
+   * entities, or of all entities. Observations that become empty, or identical
+   * to an earlier one of the same entity, are removed.
+   */
+  async replaceInObservations(
+    pattern: string,
+    replacement: string,
+    options: { entityNames?: string[]; flags?: string } = {}
+  ): Promise<ObservationReplaceResult[]> {
+    const flags = options.flags ?? 'g';
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, flags);
+    } catch (error) {
+      throw new Error(`Invalid regular expression /${pattern}/${flags}: ${(error as Error).message}`);
+    }
+    await this.snapshotBefore('replace_in_observations');
+    const now = new Date().toISOString();
+    return this.mutate('replaceInObservations', (view, apply) => {
+      const entities = options.entityNames
+        ? options.entityNames.map(name => {
+            const entity = this.resolveEntity(view, name);
+            if (!entity) throw this.entityNotFound(view, name);
+            return entity;
+          })
+        : view.listEntities();
+
+      const results: ObservationReplaceResult[] = [];
+      for (const entity of entities) {
+        const observations: string[] = [];
+        const meta: Record<string, ObservationMeta> = {};
+        const replaced: ObservationReplaceResult['replaced'] = [];
+        entity.observations.forEach((before, index) => {
+          regex.lastIndex = 0;
+          const after = before.replace(regex, replacement);
+          const kept = after.trim() !== '' && !observations.includes(after);
+          if (kept) {
+            observations.push(after);
+            const previous = entity.observationMeta?.[before];
+            if (previous) meta[after] = previous;
+          }
+          if (after !== before || !kept) replaced.push({ index, before, after: kept ? after : null });
+        });
+
+        if (replaced.length > 0) {
+          apply({ op: 'set_observations', entityName: entity.name, observations, meta, updatedAt: now });
+          results.push({ entityName: entity.name, replaced });
+        }
+      }
+      return results;
+    });
+  }
+
+  async deleteRelations(relations: Relation[]): Promise<string | undefined> {
+    await this.snapshotBefore('delete_relations');
+    return this.softDelete('delete_relations', 'deleteRelations', (view, apply) => {
+      const deleted = relations
+        .map(relation => findRelation(view, relation))
+        .filter((relation): relation is Relation => relation !== undefined)
+        .map(relation => ({ ...relation }));
+      deleted.forEach(relation => apply({ op: 'delete_relation', relation }));
+      return { entities: [], observations: [], relations: deleted };
+    });
+  }
+
+  // ==================== Trash ====================
+
+  private static trashInfo(entry: TrashEntry): TrashInfo {
+    return {
+      id: entry.id,
+      deletedAt: entry.deletedAt,
+      operation: entry.operation,
+      entities: entry.entities.map(e => e.name),
+      observations: entry.observations.reduce((sum, group) => sum + group.observations.length, 0),
+      relations: entry.relations.length,
+    };
+  }
+
+  private trashBin(): TrashBin {
+    if (!this.trash) {
+      throw new Error('Soft deletes are disabled, so deleted items are not kept in a trash');
+    }
+    return this.trash;
+  }
+
+  /**
+   * The trash entries, newest first.
+   */
+  async listTrash(): Promise<TrashInfo[]> {
+    return (await this.trashBin().list()).map(KnowledgeGraphManager.trashInfo);
+  }
+
+  /**
+   * Put the items of a trash entry back, including the relations deleted along
+   * with its entities, and remove the entry. Entities that exist again are
+   * left as they are, and relations whose endpoints are gone are skipped.
+   */
+  async restoreFromTrash(id: string): Promise<TrashRestoreResult> {
+    // The entry is only removed once the graph holds its items again
+    return this.trashBin().take(id, async entry => {
+      await this.snapshotBefore();
+      const now = new Date().toISOString();
+      return this.mutate('restoreFromTrash', (view, apply) => {
+        const restored: TrashRestoreResult = { id, entities: [], observations: [], relations: [], skipped: [] };
+        for (const entity of entry.entities) {
+          if (view.hasEntity(entity.name)) {
+            restored.skipped.push(`Entity ${entity.name} exists again`);
+            continue;
+          }
+          apply({ op: 'add_entity', entity });
+          restored.entities.push(entity.name);
+        }
+        for (const group of entry.observations) {
+          const entity = view.getEntity(group.entityName);
+          if (!entity) {
+            restored.skipped.push(`Observations of ${group.entityName}: the entity no longer exists`);
+            continue;
+          }
+          const observations = group.observations.filter(o => !entity.observations.includes(o));
+          if (observations.length === 0) continue;
+          const meta = Object.fromEntries(observations.flatMap(o => group.meta?.[o] ? [[o, group.meta[o]]] : []));
+          apply({ op: 'add_observations', entityName: entity.name, observations, meta, updatedAt: now });
+          restored.observations.push({ entityName: entity.name, observations });
+        }
+        for (const relation of entry.relations) {
+          if (view.hasRelation(relation)) continue;
+          const missing = [relation.from, relation.to].filter(name => !view.hasEntity(name));
+          if (missing.length > 0) {
+            restored.skipped.push(`Relation ${relation.from} -[${relation.relationType}]-> ${relation.to}: ${missing.join(' and ')} no longer exists`);
+            continue;
+          }
+          apply({ op: 'add_relation', relation });
+          restored.relations.push(relation);
+        }
+        return restored;
+      }, async () => ({ removed: entry }));
+    });
+  }
+
+  /**
+   * Permanently remove trash entries: the given ones, those deleted before a
+   * date, or all of them. Returns the removed entries.
+   */
+  async purgeTrash(options: { ids?: string[]; before?: string } = {}): Promise<TrashInfo[]> {
+    const before = this.parseTimeBound(options.before, 'before');
+    const purged = await this.trashBin().remove(entry =>
+      (options.ids === undefined || options.ids.includes(entry.id)) &&
+      (before === undefined || Date.parse(entry.deletedAt) < before)
+    );
+    return purged.reverse().map(KnowledgeGraphManager.trashInfo);
+  }
+
+  /**
+   * Rename an entity in place, moving its relations along. With keepAlias, the
+   * old name is kept as an alias so lookups by it still find the entity.
+   */
+  async renameEntity(
+    name: string,
+    newName: string,
+    options: { keepAlias?: boolean } = {}
+  ): Promise<{ entity: Entity; updatedRelations: number }> {
+    if (!newName.trim()) {
+      throw new Error('The new entity name must not be empty');
+    }
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    const schema = await this.schema.load();
+    return this.mutate('renameEntity', (view, apply) => {
+      const entity = this.resolveEntity(view, name);
+      if (!entity) {
+        throw this.entityNotFound(view, name);
+      }
+      const owner = this.resolveEntity(view, newName);
+      if (owner && owner.name !== entity.name) {
+        throw new Error(`Entity with name ${newName} already exists`);
+      }
+      if (newName === entity.name) {
+        return { entity, updatedRelations: 0 };
+      }
+      if (relationsOf(view, newName).length > 0) {
+        throw new Error(`Relations already reference ${newName}; delete them before renaming ${entity.name}`);
+      }
+
+      const oldName = entity.name;
+      const aliases = (entity.aliases ?? []).filter(alias => alias !== newName && alias !== oldName);
+      if (options.keepAlias) aliases.push(oldName);
+      const updatedRelations = relationsOf(view, oldName).length;
+      apply({ op: 'rename_entity', name: oldName, newName, aliases, updatedAt: now });
+      // Checked after the change, which is discarded when it is refused
+      if (schema.mode === 'strict') this.rejectViolations(this.entityAndRelationViolations(schema, view, newName));
+      return { entity: view.getEntity(newName)!, updatedRelations };
+    });
+  }
+
+  async setEntityType(name: string, entityType: string): Promise<Entity> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    const schema = await this.schema.load();
+    return this.mutate('setEntityType', (view, apply) => {
+      const entity = this.resolveEntity(view, name);
+      if (!entity) {
+        throw this.entityNotFound(view, name);
+      }
+      if (entity.entityType !== entityType) {
+        apply({ op: 'set_entity_type', name: entity.name, entityType, updatedAt: now });
+        // The new type must be declared and allowed at both ends of the entity's relations
+        if (schema.mode === 'strict') this.rejectViolations(this.entityAndRelationViolations(schema, view, entity.name));
+      }
+      return view.getEntity(entity.name)!;
+    });
+  }
+
+  /**
+   * Fold entities into a survivor: their observations are added to it, their
+   * relations are moved to it, and they are deleted. Relations that would
+   * duplicate an existing one or point from the survivor to itself are dropped.
+   * The survivor keeps its type; differing types are reported.
+   */
+  async mergeEntities(survivor: string, entityNames: string[]): Promise<MergeResult> {
+    await this.snapshotBefore('merge_entities');
+    const now = new Date().toISOString();
+    const schema = await this.schema.load();
+    return this.mutate('mergeEntities', (view, apply) => {
+      // Exact names only, as merging deletes the merged entities
+      const target = view.getEntity(survivor);
+      if (!target) {
+        throw this.entityNotFound(view, survivor);
+      }
+      const sources: Entity[] = [];
+      for (const name of entityNames) {
+        const entity = view.getEntity(name);
+        if (!entity) {
+          throw this.entityNotFound(view, name);
+        }
+        if (entity.name !== target.name && !sources.some(e => e.name === entity.name)) sources.push(entity);
+      }
+
+      const merged = new Set(sources.map(e => e.name));
+      const repoint = (name: string) => merged.has(name) ? target.name : name;
+      const observations = new Set(target.observations);
+      const meta: Record<string, ObservationMeta> = {};
+      // Keyed by the original endpoints, as relations between merged entities are seen twice
+      const touched = new Map<string, Relation>();
+      for (const source of sources) {
+        for (const observation of source.observations) {
+          if (observations.has(observation)) continue;
+          observations.add(observation);
+          const observationMeta = source.observationMeta?.[observation];
+          if (observationMeta) meta[observation] = observationMeta;
+        }
+        relationsOf(view, source.name)
+          .forEach(r => touched.set(JSON.stringify([r.from, r.relationType, r.to]), r));
+      }
+      const relations = [...touched.values()]
+        .map(relation => ({ ...relation, from: repoint(relation.from), to: repoint(relation.to), updatedAt: now }))
+        .filter(relation => relation.from !== target.name || relation.to !== target.name);
+      let droppedRelations = touched.size - relations.length;
+
+      const added = [...observations].slice(target.observations.length);
+      if (added.length > 0) {
+        apply({ op: 'add_observations', entityName: target.name, observations: added, meta, updatedAt: now });
+      }
+      // Deleting cascades to the merged entities' relations, which are re-added below
+      sources.forEach(source => apply({ op: 'delete_entity', name: source.name }));
+      // The merged entities stay findable by their names and aliases
+      const aliases = Array.from(new Set([...(target.aliases ?? []), ...sources.flatMap(e => [e.name, ...(e.aliases ?? [])])]))
+        .filter(alias => alias !== target.name);
+      if (aliases.length > (target.aliases ?? []).length) {
+        apply({ op: 'set_aliases', name: target.name, aliases, updatedAt: now });
+      }
+      let repointedRelations = 0;
+      for (const relation of relations) {
+        if (view.hasRelation(relation)) {
+          droppedRelations++;
+        } else {
+          apply({ op: 'add_relation', relation });
+          repointedRelations++;
+        }
+      }
+      // Moved relations must accept the survivor's type
+      if (schema.mode === 'strict') this.rejectViolations(this.entityAndRelationViolations(schema, view, target.name));
+
+      return {
+        entity: view.getEntity(target.name)!,
+        merged: [...merged],
+        addedObservations: added.length,
+        repointedRelations,
+        droppedRelations,
+        typeConflicts: sources
+          .filter(e => e.entityType.toLowerCase() !== target.entityType.toLowerCase())
+          .map(e => ({ name: e.name, entityType: e.entityType })),
+      };
+    });
+  }
+
+  /**
+   * Add and remove aliases of an entity. An alias may not be the name or an
+   * alias of another entity.
+   */
+  async updateAliases(name: string, changes: { add?: string[]; remove?: string[] }): Promise<Entity> {
+    await this.snapshotBefore();
+    const now = new Date().toISOString();
+    return this.mutate('updateAliases', (view, apply) => {
+      const entity = this.resolveEntity(view, name);
+      if (!entity) {
+        throw this.entityNotFound(view, name);
+      }
+      for (const alias of changes.add ?? []) {
+        const owner = view.hasEntity(alias) ? alias : view.getEntityByAlias(alias)?.name;
+        if (owner !== undefined && owner !== entity.name) {
+          throw new Error(`Alias ${alias} is already used by entity ${owner}`);
+        }
+      }
+      const aliases = Array.from(new Set([...(entity.aliases ?? []), ...(changes.add ?? [])]))
+        .filter(alias => alias !== entity.name && !(changes.remove ?? []).includes(alias));
+      if (JSON.stringify(aliases) !== JSON.stringify(entity.aliases ?? [])) {
+        apply({ op: 'set_aliases', name: entity.name, aliases, updatedAt: now });
+      }
+      return view.getEntity(entity.name)!;
+    });
+  }
+
+  async readGraph(options: ReadOptions = {}): Promise<KnowledgeGraph> {
+    return this.loadGraph(options);
+  }
+
+  /**
+   * Advanced search with boolean operators, field prefixes, fuzzy matching, and relevance scoring.
+   *
+   * Query Syntax:
+   * - Multiple words: OR logic (matches any word)
+   * - +term: Required (must be present)
+   * - -term: Excluded (must NOT be present)
+   * - "phrase": Exact phrase match
+   * - name:value: Search only entity names
+   * - type:value: Search only entity types, including subtypes declared with define_type_hierarchy (exactType: true to match the type alone)
+   * - obs:value: Search only observations
+   * - tag:value: Only entities with an observation carrying the tag
+   *
+   * Examples:
+   * - "auth module" - finds entities matching "auth" OR "module"
+   * - "+auth +security" - finds entities matching BOTH "auth" AND "security"
+   * - "auth -deprecated" - finds "auth" but excludes "deprecated"
+   * - "name:AuthService type:Module" - finds AuthService of type Module
+   */
+  async searchNodes(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    const graph = await this.loadGraph(options);
+    const index = await this.readView(options);
+    const { includeNeighbors = false, fuzzy = false, limit } = options;
+    const since = this.parseTimeBound(options.since, 'since');
+    const until = this.parseTimeBound(options.until, 'until');
+
+    // Handle empty query
+    if (!query.trim()) {
+      return { entities: [], relations: [], scores: [] };
+    }
+
+    // Parse the query for field-specific and boolean operators
+    const fieldQuery = this.parseFieldQuery(query);
+
+    // Check if query has any parseable content
+    const hasFieldQueries = fieldQuery.name || fieldQuery.type || fieldQuery.obs || fieldQuery.tag;
+    const hasAllQuery = fieldQuery.all && (
+      fieldQuery.all.required.length > 0 ||
+      fieldQuery.all.optional.length > 0 ||
+      fieldQuery.all.phrases.length > 0
+    );
+
+    if (!hasFieldQueries && !hasAllQuery) {
+      return { entities: [], relations: [], scores: [] };
+    }
+
+    // type: also matches subtypes of the queried type, unless exactType is set
+    const schema = fieldQuery.type && !options.exactType ? await this.schema.load() : undefined;
+    const typeNames = schema && ((entityType: string) => typeClosure(schema, entityType, 'supertypes'));
+
+    // Step 1: Look the query's terms up in the text index, then filter the
+    // candidates by query match. Fuzzy matches can only be found by a scan.
+    const text = await this.textIndex();
+    const narrowed = [
+      fieldQuery.name && this.textCandidates(text, fieldQuery.name, ['name']),
+      fieldQuery.obs && this.textCandidates(text, fieldQuery.obs, ['obs']),
+      fieldQuery.all && !fuzzy && this.textCandidates(text, fieldQuery.all, TEXT_FIELDS),
+    ].filter((names): names is Set<string> => names instanceof Set);
+    const candidates = fuzzy && fieldQuery.all || narrowed.length === 0
+      ? graph.entities
+      : graph.entities.filter(entity => narrowed.every(names => names.has(entity.name)));
+
+    let matchedEntities = candidates.filter(entity => {
+      if (!this.entityWithinTime(entity, since, until)) return false;
+
+      // Check field-specific matching
+      if (!this.entityMatchesFieldQuery(entity, fieldQuery, typeNames)) {
+        // If standard matching fails and fuzzy is enabled, try fuzzy matching
+        if (fuzzy && fieldQuery.all) {
+          const allTokens = [
+            ...fieldQuery.all.required,
+            ...fieldQuery.all.optional,
+            ...fieldQuery.all.phrases
+          ];
+          const allText = `${entity.name} ${entity.entityType} ${entity.observations.join(' ')}`;
+          return allTokens.some(token => this.fuzzyMatch(allText, token));
+        }
+        return false;
+      }
+      return true;
+    });
+
+    // Step 2: Score and sort entities
+    const score = text.entityScorer(this.textQuery(fieldQuery), fuzzy ? (term, queried) => this.fuzzyMatch(term, queried) : undefined);
+    const scored = matchedEntities.map(entity => ({
+      entity,
+      score: score(entity)
+    })).sort((a, b) => b.score - a.score);
+
+    // Step 3: Apply limit if specified
+    const limitedScored = limit ? scored.slice(0, limit) : scored;
+    matchedEntities = limitedScored.map(s => s.entity);
+    let matchedEntityNames = new Set(matchedEntities.map(e => e.name));
+
+    // Step 4: If includeNeighbors, expand to 1-hop connected entities
+    if (includeNeighbors && matchedEntityNames.size > 0) {
+      const neighborNames = new Set<string>();
+      for (const name of matchedEntityNames) {
+        index.getOutgoing(name).forEach(rel => neighborNames.add(rel.to));
+        index.getIncoming(name).forEach(rel => neighborNames.add(rel.from));
+      }
+      // Add neighbor entities to results
+      Array.from(neighborNames).forEach(name => {
+        if (!matchedEntityNames.has(name)) {
+          const neighborEntity = index.getEntity(name);
+          if (neighborEntity) {
+            matchedEntities.push(neighborEntity);
+            matchedEntityNames.add(name);
+          }
+        }
+      });
+    }
+
+    // Step 5: Get relations - include ALL relations where at least one endpoint is in result set
+    const filteredRelations = this.collectRelations(index, matchedEntityNames, 'any');
+
+    return {
+      entities: matchedEntities,
+      relations: filteredRelations,
+      scores: limitedScored.map(s => ({ name: s.entity.name, score: s.score }))
+    };
+  }
+
+  async openNodes(names: string[], options: ReadOptions = {}): Promise<KnowledgeGraph> {
+    const index = await this.readView(options);
+    
+    // Look up entities by name or alias, skipping unknown and repeated names
+    const resolved = new Map<string, Entity>();
+    for (const name of names) {
+      const entity = this.resolveEntity(index, name);
+      if (entity && !resolved.has(entity.name)) resolved.set(entity.name, entity);
+    }
+    const filteredEntities = Array.from(resolved.values());
+  
+    // Create a Set of filtered entity names for quick lookup
+    const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
+  
+    // Filter relations to only include those between filtered entities
+    const filteredRelations = this.collectRelations(index, filteredEntityNames, 'both');
+  
+    const filteredGraph: KnowledgeGraph = {
+      entities: filteredEntities,
+      relations: filteredRelations,
+    };
+
+    return filteredGraph;
+  }
+
+  // ==================== Graph Traversal Methods ====================
+
+  /**
+   * Get all entities directly connected to a given entity. Archived neighbors
+   * are listed as stubs without observations unless archived entities are
+   * included, so their relations stay visible.
+   */
+  async getNeighbors(
+    entityName: string,
+    options?: { direction?: 'incoming' | 'outgoing' | 'both'; relationType?: string; includeArchived?: boolean }
+  ): Promise<NeighborResult[]> {
+    const index = await this.readView({ includeArchived: true });
+    const { direction = 'both', relationType, includeArchived = false } = options || {};
+    const results: NeighborResult[] = [];
+
+    // Check if the source entity exists
+    const source = this.resolveEntity(index, entityName);
+    if (!source || (source.archivedAt !== undefined && !includeArchived)) {
+      return [];
+    }
+    entityName = source.name;
+    const neighbor = (entity: Entity): Entity => entity.archivedAt === undefined || includeArchived
+      ? entity
+      : { name: entity.name, entityType: entity.entityType, observations: [], archivedAt: entity.archivedAt };
+
+    if (direction === 'both' || direction === 'outgoing') {
+      for (const rel of index.getOutgoing(entityName, relationType)) {
+        const targetEntity = index.getEntity(rel.to);
+        if (targetEntity) {
+          results.push({ entity: neighbor(targetEntity), relation: rel, direction: 'outgoing' });
+        }
+      }
+    }
+
+    if (direction === 'both' || direction === 'incoming') {
+      for (const rel of index.getIncoming(entityName, relationType)) {
+        const sourceEntity = index.getEntity(rel.from);
+        if (sourceEntity) {
+          results.push({ entity: neighbor(sourceEntity), relation: rel, direction: 'incoming' });
+        }
+      }
+    }
+
+    // Relations read in reverse, e.g. the incoming `A imports B` as B's outgoing `importedBy`
+    const inverses = relationInverses(await this.schema.load());
+    const inverseType = relationType === undefined ? undefined : inverses.get(relationType);
+    const addReversed = (stored: Relation[], readAs: 'incoming' | 'outgoing') => {
+      if (direction !== 'both' && direction !== readAs) return;
+      // With both directions, relations that match as stored are already listed
+      if (direction === 'both' && (relationType === undefined || inverseType === relationType)) return;
+      for (const reading of stored.map(rel => reverseRelation(rel, inverses))) {
+        if (!reading || index.hasRelation(reading)) continue;
+        const entity = index.getEntity(readAs === 'outgoing' ? reading.to : reading.from);
+        if (entity) {
+          results.push({ entity: neighbor(entity), relation: reading, direction: readAs });
+        }
+      }
+    };
+    if (relationType === undefined || inverseType !== undefined) {
+      addReversed(index.getIncoming(entityName, inverseType), 'outgoing');
+      addReversed(index.getOutgoing(entityName, inverseType), 'incoming');
+    }
+
+    return results;
+  }
+
+  /**
+   * Find shortest path between two entities using BFS. With a weight property,
+   * find the path with the lowest total weight instead (Dijkstra), counting
+   * relations without the property as 1.
+   */
+  async findPath(
+    fromEntity: string,
+    toEntity: string,
+    maxDepth: number = 10,
+    weightProperty?: string,
+    options: { includeArchived?: boolean } = {}
+  ): Promise<PathResult | null> {
+    const index = await this.readView(options);
+    const from = this.resolveEntity(index, fromEntity);
+    const to = this.resolveEntity(index, toEntity);
+
+    if (!from || !to) {
+      return null;
+    }
+    fromEntity = from.name;
+    toEntity = to.name;
+
+    // Same entity - trivial path
+    if (fromEntity === toEntity) {
+      return {
+        path: [index.getEntity(fromEntity)!],
+        relations: [],
+        length: 0,
+        ...(weightProperty !== undefined && { cost: 0 })
+      };
+    }
+
+    // Relations are traversed in both directions for path finding, and reported
+    // by their reverse reading where they have one when traversed backwards
+    const inverses = relationInverses(await this.schema.load());
+    const adjacentTo = (name: string): { neighbor: string; relation: Relation }[] => [
+      ...index.getOutgoing(name).map(relation => ({ neighbor: relation.to, relation })),
+      ...index.getIncoming(name).map(relation => ({ neighbor: relation.from, relation: reverseRelation(relation, inverses) ?? relation })),
+    ].filter(({ neighbor }) => index.hasEntity(neighbor));
+
+    if (weightProperty !== undefined) {
+      return this.findLightestPath(index, fromEntity, toEntity, maxDepth, weightProperty, adjacentTo);
+    }
+
+    // BFS
+    const visited = new Set<string>();
+    const queue: { name: string; path: string[]; relations: Relation[] }[] = [
+      { name: fromEntity, path: [fromEntity], relations: [] }
+    ];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      if (current.name === toEntity) {
+        return {
+          path: current.path.map(name => index.getEntity(name)!),
+          relations: current.relations,
+          length: current.path.length - 1
+        };
+      }
+
+      if (current.path.length > maxDepth) continue;
+      if (visited.has(current.name)) continue;
+      visited.add(current.name);
+
+      for (const { neighbor, relation } of adjacentTo(current.name)) {
+        if (!visited.has(neighbor)) {
+          queue.push({
+            name: neighbor,
+            path: [...current.path, neighbor],
+            relations: [...current.relations, relation]
+          });
+        }
+      }
+    }
+
+    return null;  // No path found
+  }
+
+  private findLightestPath(
+    index: GraphView,
+    fromEntity: string,
+    toEntity: string,
+    maxDepth: number,
+    weightProperty: string,
+    adjacentTo: (name: string) => { neighbor: string; relation: Relation }[]
+  ): PathResult | null {
+    const weightOf = (relation: Relation): number => {
+      const weight = relation.properties?.[weightProperty] ?? 1;
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        throw new Error(
+          `Relation ${relation.from} -[${relation.relationType}]-> ${relation.to} has an invalid ${weightProperty} ` +
+          `${JSON.stringify(weight)} (weights must be non-negative numbers)`
+        );
+      }
+      return weight;
+    };
+
+    // Dijkstra over a plain array; graphs are small enough that a heap is not worth it
+    const visited = new Set<string>();
+    const pending: { name: string; path: string[]; relations: Relation[]; cost: number }[] = [
+      { name: fromEntity, path: [fromEntity], relations: [], cost: 0 }
+    ];
+
+    while (pending.length > 0) {
+      let next = 0;
+      pending.forEach((candidate, i) => { if (candidate.cost < pending[next].cost) next = i; });
+      const current = pending.splice(next, 1)[0];
+
+      if (current.name === toEntity) {
+        return {
+          path: current.path.map(name => index.getEntity(name)!),
+          relations: current.relations,
+          length: current.path.length - 1,
+          cost: current.cost
+        };
+      }
+
+      if (current.path.length > maxDepth) continue;
+      if (visited.has(current.name)) continue;
+      visited.add(current.name);
+
+      for (const { neighbor, relation } of adjacentTo(current.name)) {
+        if (!visited.has(neighbor)) {
+          pending.push({
+            name: neighbor,
+            path: [...current.path, neighbor],
+            relations: [...current.relations, relation],
+            cost: current.cost + weightOf(relation)
+          });
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract N-hop neighborhood around seed entities
+   */
+  async getSubgraph(entityNames: string[], depth: number = 1, options: ReadOptions = {}): Promise<KnowledgeGraph> {
+    const index = await this.readView(options);
+    const entitySet = new Set(entityNames.map(name => this.resolveEntity(index, name)?.name ?? name));
+
+    // Expand to N-hop neighbors, visiting only the frontier added by the previous hop
+    let frontier = Array.from(entitySet);
+    for (let i = 0; i < depth && frontier.length > 0; i++) {
+      const newNeighbors: string[] = [];
+      for (const name of frontier) {
+        const neighbors = [
+          ...index.getOutgoing(name).map(rel => rel.to),
+          ...index.getIncoming(name).map(rel => rel.from),
+        ];
+        for (const neighbor of neighbors) {
+          if (!entitySet.has(neighbor)) {
+            entitySet.add(neighbor);
+            newNeighbors.push(neighbor);
+          }
+        }
+      }
+      frontier = newNeighbors;
+    }
+
+    const filteredEntities = Array.from(entitySet)
+      .map(name => index.getEntity(name))
+      .filter((e): e is Entity => e !== undefined);
+    const filteredRelations = this.collectRelations(index, entitySet, 'both');
+
+    return { entities: filteredEntities, relations: filteredRelations };
+  }
+
+  // ==================== Filtering Methods ====================
+
+  /**
+   * Get all entities of a specific type, including its declared subtypes
+   * unless exact is set
+   */
+  async filterByType(entityType: string, options: { exact?: boolean; includeArchived?: boolean } = {}): Promise<KnowledgeGraph> {
+    const index = await this.readView(options);
+    const entityTypes = options.exact ? [entityType] : typeClosure(await this.schema.load(), entityType, 'subtypes');
+    const filteredEntities = entityTypes.flatMap(t => index.getEntitiesByType(t));
+    const entityNames = new Set(filteredEntities.map(e => e.name));
+    const filteredRelations = this.collectRelations(index, entityNames, 'both');
+    return { entities: filteredEntities, relations: filteredRelations };
+  }
+
+  /**
+   * Parse a relation property filter: comma-separated conditions such as
+   * "weight>0.5, optional=true", or a bare key requiring the property to be set.
+   */
+  private parsePropertyFilter(filter: string): PropertyCondition[] {
+    return filter.split(',').filter(part => part.trim()).map(part => {
+      const match = /^\s*([^\s=!<>]+)\s*(?:(>=|<=|!=|=|>|<)\s*(?:"([^"]*)"|(.*?)))?\s*$/.exec(part);
+      if (!match || (match[2] && match[3] === undefined && !match[4])) {
+        throw new Error(`Invalid property filter "${part.trim()}" (expected e.g. weight>0.5 or note=optional)`);
+      }
+      return {
+        key: match[1],
+        ...(match[2] && { operator: match[2] as PropertyCondition['operator'], value: match[3] ?? match[4] }),
+      };
+    });
+  }
+
+  /**
+   * Check a relation against property conditions. Values compare as numbers when
+   * both sides are numeric, otherwise as case-insensitive strings.
+   */
+  private matchesPropertyFilter(relation: Relation, conditions: PropertyCondition[]): boolean {
+    return conditions.every(({ key, operator, value }) => {
+      const actual = relation.properties?.[key];
+      if (actual === undefined || actual === null) return operator === '!=';
+      if (!operator || value === undefined) return true;
+
+      const numeric = typeof actual === 'number' || (typeof actual === 'string' && actual.trim() !== '' && !isNaN(Number(actual)));
+      const comparison = numeric && value.trim() !== '' && !isNaN(Number(value))
+        ? Number(actual) - Number(value)
+        : String(actual).toLowerCase().localeCompare(value.toLowerCase());
+      switch (operator) {
+        case '=': return comparison === 0;
+        case '!=': return comparison !== 0;
+        case '>': return comparison > 0;
+        case '>=': return comparison >= 0;
+        case '<': return comparison < 0;
+        case '<=': return comparison <= 0;
+      }
+    });
+  }
+
+  /**
+   * Filter relations by type, source, target, or properties
+   */
+  async filterRelations(options: {
+    relationType?: string;
+    fromEntity?: string;
+    toEntity?: string;
+    properties?: string;  // Property filter, e.g. "weight>0.5"
+    includeArchived?: boolean;
+  }): Promise<{ relations: Relation[]; entities: Entity[] }> {
+    const graph = await this.loadGraph(options);
+    const index = await this.readView(options);
+    const conditions = options.properties ? this.parsePropertyFilter(options.properties) : [];
+    const endpoint = (name?: string) => name && (this.resolveEntity(index, name)?.name ?? name);
+    const fromEntity = endpoint(options.fromEntity);
+    const toEntity = endpoint(options.toEntity);
+
+    // Start from the narrowest indexed candidate set, then apply remaining filters
+    const candidates = fromEntity ? index.getOutgoing(fromEntity)
+      : toEntity ? index.getIncoming(toEntity)
+      : options.relationType ? index.getRelationsByType(options.relationType)
+      : graph.relations;
+    const matches = (r: Relation) => {
+      if (options.relationType && r.relationType.toLowerCase() !== options.relationType.toLowerCase()) return false;
+      if (fromEntity && r.from !== fromEntity) return false;
+      if (toEntity && r.to !== toEntity) return false;
+      if (!this.matchesPropertyFilter(r, conditions)) return false;
+      return true;
+    };
+    const filteredRelations = candidates.filter(matches);
+
+    // Add relations that only match when read in reverse, e.g. `A imports B`
+    // for relations of type importedBy or relations from B
+    const inverses = relationInverses(await this.schema.load());
+    const inverseTypes = options.relationType === undefined ? [] : [...inverses]
+      .filter(([relationType]) => relationType.toLowerCase() === options.relationType!.toLowerCase())
+      .map(([, inverseType]) => inverseType);
+    const reversible = fromEntity ? index.getIncoming(fromEntity)
+      : toEntity ? index.getOutgoing(toEntity)
+      : inverseTypes.flatMap(relationType => index.getRelationsByType(relationType));
+    for (const relation of reversible.filter(r => !matches(r))) {
+      const reading = reverseRelation(relation, inverses);
+      if (reading && matches(reading) && !index.hasRelation(reading)) {
+        filteredRelations.push(reading);
+      }
+    }
+
+    // Get all entities involved in the filtered relations
+    const entityNames = new Set<string>();
+    for (const rel of filteredRelations) {
+      entityNames.add(rel.from);
+      entityNames.add(rel.to);
+    }
+    const entities = Array.from(entityNames)
+      .map(name => index.getEntity(name))
+      .filter((e): e is Entity => e !== undefined);
+
+    return { relations: filteredRelations, entities };
+  }
+
+  /**
+   * Find entities with observations matching a pattern
+   */
+  async filterByObservation(pattern: string, options: { includeArchived?: boolean } = {}): Promise<Entity[]> {
+    const graph = await this.loadGraph(options);
+
+    // Common preset patterns
+    const presetPatterns: Record<string, RegExp> = {
+      'dated': /^\[\d{4}-\d{2}-\d{2}\]/,           // [2025-12-16] observations
+      'techdebt': /tech\s*debt|TODO|FIXME|HACK/i,  // Tech debt markers
+      'deprecated': /deprecated/i,                   // Deprecated items
+      'purpose': /purpose:/i,                        // Purpose statements
+      'quirk': /quirk:/i,                            // Quirk notes
+    };
+
+    // Use preset pattern if available, otherwise treat as regex
+    const preset = pattern.toLowerCase();
+    const regex = presetPatterns[preset] || new RegExp(pattern, 'i');
+
+    // Presets also match observations tagged with the preset's name
+    const tagged = (e: Entity, obs: string) =>
+      preset in presetPatterns && (e.observationMeta?.[obs]?.tags ?? []).some(t => t.toLowerCase() === preset);
+
+    return graph.entities.filter(e =>
+      e.observations.some(obs => regex.test(obs) || tagged(e, obs))
+    );
+  }
+
+  // ==================== Observation-Level Search ====================
+
+  /**
+   * Search at the observation level, returning individual matching observations
+   * with their parent entity context.
+   *
+   * This is more efficient than search_nodes when you need specific facts
+   * rather than entire entities.
+   */
+  async searchObservations(
+    query: string,
+    options: ObservationSearchOptions = {}
+  ): Promise<ObservationSearchResult> {
+    const graph = await this.loadGraph(options);
+    const { limit = 10, includeEntity = false, fuzzy = false } = options;
+    const since = this.parseTimeBound(options.since, 'since');
+    const until = this.parseTimeBound(options.until, 'until');
+
+    // Handle empty query
+    if (!query.trim()) {
+      return { matches: [] };
+    }
+
+    // Separate tag: filters from the text query, then parse it for boolean operators
+    const { tag } = this.parseFieldQuery(query);
+    const text = query.replace(/tag:(?:"[^"]+"|\S+)/gi, ' ').trim();
+    const parsed = this.parseQuery(text);
+    const terms = Array.from(new Set([...parsed.required, ...parsed.optional, ...parsed.phrases].flatMap(textTerms)));
+
+    // Only entities with observations containing the query's terms need to be
+    // looked at, unless fuzzy matches are wanted
+    const textIndex = await this.textIndex();
+    const candidates = fuzzy ? undefined : this.textCandidates(textIndex, parsed, ['obs']);
+    const entities = candidates ? graph.entities.filter(entity => candidates.has(entity.name)) : graph.entities;
+    const score = textIndex.observationScorer(terms, fuzzy ? (term, queried) => this.fuzzyMatch(term, queried) : undefined);
+
+    // Collect all matching observations with scores
+    const allMatches: ObservationMatch[] = [];
+
+    for (const entity of entities) {
+      for (const [index, observation] of entity.observations.entries()) {
+        if (!this.withinTime(this.observationTime(entity, observation), since, until)) continue;
+        if (tag && !this.matchesTags(this.observationTags(entity, observation), tag)) continue;
+
+        // Check if observation matches the query
+        if (!this.matchesParsedQuery(observation, parsed)) {
+          // Try fuzzy matching if enabled
+          if (fuzzy) {
+            const allTerms = [...parsed.required, ...parsed.optional, ...parsed.phrases];
+            if (!allTerms.some(term => this.fuzzyMatch(observation, term))) {
+              continue;
+            }
+          } else {
+            continue;
+          }
+        }
+
+        // Calculate relevance score; with nothing to score by (such as only a tag), every match counts
+        const relevance = score(observation);
+
+        if (relevance > 0 || terms.length === 0) {
+          const meta = entity.observationMeta?.[observation];
+          allMatches.push({
+            entityName: entity.name,
+            entityType: entity.entityType,
+            observation,
+            index,
+            score: relevance,
+            ...(meta?.createdAt !== undefined && { createdAt: meta.createdAt }),
+            ...(meta?.source !== undefined && { source: meta.source }),
+            ...(meta?.tags !== undefined && { tags: meta.tags }),
+            ...(meta?.confidence !== undefined && { confidence: meta.confidence }),
+            ...(meta?.validFrom !== undefined && { validFrom: meta.validFrom }),
+            ...(meta?.validTo !== undefined && { validTo: meta.validTo }),
+            ...(meta?.expiresAt !== undefined && { expiresAt: meta.expiresAt })
+          });
+        }
+      }
+    }
+
+    // Sort by score descending
+    allMatches.sort((a, b) => b.score - a.score);
+
+    // Apply limit
+    const limitedMatches = allMatches.slice(0, limit);
+
+    // Reads leave out retired and expired observations, but update_observations
+    // counts positions in the stored list, so report the position there
+    const stored = await this.storedView();
+    for (const match of limitedMatches) {
+      const position = stored.getEntity(match.entityName)?.observations.indexOf(match.observation) ?? -1;
+      if (position >= 0) match.index = position;
+    }
+
+    // Optionally include full entities
+    const result: ObservationSearchResult = { matches: limitedMatches };
+
+    if (includeEntity && limitedMatches.length > 0) {
+      const entityNames = new Set(limitedMatches.map(m => m.entityName));
+      result.entities = graph.entities.filter(e => entityNames.has(e.name));
+    }
+
+    return result;
+  }
+
+  // ==================== Duplicate Detection ====================
+
+  /**
+   * Propose pairs of entities whose normalized names are similar enough to be
+   * duplicates, most similar first. Similarity is 1 minus the edit distance
+   * relative to the longer normalized name.
+   */
+  async findDuplicateEntities(options: { threshold?: number; entityType?: string; limit?: number } = {}): Promise<DuplicateCandidate[]> {
+    const { threshold = 0.8, entityType, limit } = options;
+    const index = await this.readView();
+    const entities = (entityType ? index.getEntitiesByType(entityType) : index.listEntities())
+      .map(entity => ({ entity, key: normalizeName(entity.name) }));
+
+    const candidates: DuplicateCandidate[] = [];
+    for (let i = 0; i < entities.length; i++) {
+      for (let j = i + 1; j < entities.length; j++) {
+        const [a, b] = [entities[i], entities[j]];
+        const longest = Math.max(a.key.length, b.key.length);
+        if (longest === 0) continue;
+        // The length difference alone bounds the similarity; skip the distance when it cannot pass
+        if (1 - Math.abs(a.key.length - b.key.length) / longest < threshold) continue;
+        const similarity = this.nameSimilarity(a.key, b.key);
+        if (similarity >= threshold) {
+          candidates.push({
+            names: [a.entity.name, b.entity.name],
+            entityTypes: [a.entity.entityType, b.entity.entityType],
+            similarity: Math.round(similarity * 1000) / 1000,
+          });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.similarity - a.similarity);
+    return limit ? candidates.slice(0, limit) : candidates;
+  }
+
+  // ==================== Maintenance Methods ====================
+
+  /**
+   * Report stored lines that were skipped while loading because they are
+   * unparseable or structurally invalid. With rewrite, remove them from the
+   * file, keeping the original as a .corrupt backup.
+   */
+  async repairMemory(rewrite: boolean = false): Promise<RepairReport> {
+    if (!this.storage.repair) {
+      throw new Error('Repair is not supported by the configured storage backend');
+    }
+    return this.storage.repair(rewrite);
+  }
+
+  /**
+   * Snapshot the current graph. Returns the snapshot id, or undefined when
+   * snapshots are disabled or the graph is empty.
+   */
+  async takeSnapshot(reason: string): Promise<string | undefined> {
+    return this.snapshots.take(await this.storage.loadGraph(), reason);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return this.snapshots.list();
+  }
+
+  /**
+   * Replace the whole graph with the contents of a snapshot in a single mutation.
+   * The current graph is snapshotted first, so a restore can itself be reverted.
+   */
+  async restoreSnapshot(id: string): Promise<{ restored: string; entities: number; relations: number; backup?: string }> {
+    const graph = await this.snapshots.read(id);
+    const backup = await this.snapshots.take(await this.storage.loadGraph(), 'restore_snapshot');
+
+    await this.mutate('restoreSnapshot', (view, apply) => {
+      new Set(view.listEntities().map(e => e.name)).forEach(name => apply({ op: 'delete_entity', name }));
+      // Relations left without an entity are not cascaded by the deletes above
+      [...view.listRelations()].forEach(relation => apply({ op: 'delete_relation', relation }));
+      graph.entities.forEach(entity => apply({ op: 'add_entity', entity }));
+      graph.relations.forEach(relation => apply({ op: 'add_relation', relation }));
+    });
+    return { restored: id, entities: graph.entities.length, relations: graph.relations.length, backup };
+  }
+
+  /**
+   * Revert the last `count` recorded mutations, newest first, in a single mutation.
+   */
+  async undo(count: number = 1): Promise<OperationLogResult> {
+    let entries: OperationLogEntry[] = [];
+    const result = await this.operationLog.update(async state => {
+      entries = state.undo.splice(Math.max(0, state.undo.length - count)).reverse();
+      await this.replay(entries.flatMap(entry => entry.inverse));
+      state.redo.push(...entries);
+      return summarizeEntries(entries, state.undo.length);
+    });
+    await this.replayTrash(entries.map(({ trash }) => ({ put: trash?.removed, remove: trash?.added })));
+    return result;
+  }
+
+  /**
+   * Reapply the last `count` undone mutations, oldest first, in a single mutation.
+   */
+  async redo(count: number = 1): Promise<OperationLogResult> {
+    let entries: OperationLogEntry[] = [];
+    const result = await this.operationLog.update(async state => {
+      entries = state.redo.splice(Math.max(0, state.redo.length - count)).reverse();
+      await this.replay(entries.flatMap(entry => entry.operations));
+      state.undo.push(...entries);
+      return summarizeEntries(entries, state.redo.length);
+    });
+    await this.replayTrash(entries.map(({ trash }) => ({ put: trash?.added, remove: trash?.removed })));
+    return result;
+  }
+
+  /**
+   * Apply the trash side of replayed entries, in order: undoing a soft delete
+   * takes its entry out again and undoing a restore puts the entry back, redo
+   * the reverse. Runs after the operation log is released, since deletes and
+   * restores lock the trash before the log.
+   */
+  private async replayTrash(changes: { put?: TrashEntry; remove?: TrashEntry }[]): Promise<void> {
+    if (!this.trash || changes.every(change => !change.put && !change.remove)) return;
+    await this.trash.replay(changes);
+  }
+
+  private async replay(operations: GraphOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    await this.storage.mutate((view, apply) => {
+      for (const operation of operations) {
+        const reconciled = reconcileOperation(view, operation);
+        if (reconciled) apply(reconciled);
+      }
+    });
+  }
+}
+
+// ==================== Namespaces ====================
+
+export interface NamespaceManagerOptions extends KnowledgeGraphManagerOptions {
+  directory?: string;          // Where <namespace>.jsonl files are stored; defaults to "namespaces" next to the memory file
+  defaultNamespace?: string;   // Namespace used when a call does not name one
+}
+
+export interface NamespaceInfo {
+  name: string;
+  filePath: string;
+  isDefault: boolean;          // Used when a call does not name a namespace
+}
+
+// The namespace stored in the memory file itself
+export const DEFAULT_NAMESPACE = 'default';
+
+const NAMESPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * Independent knowledge graphs selected by name. The "default" namespace is the
+ * memory file itself, every other namespace a <name>.jsonl file in the namespace
+ * directory (or the <name>.db database next to it with the SQLite backend).
+ * A manager is opened per namespace on first use and kept for later calls.
+ */
+export class NamespaceManager {
+  readonly directory: string;
+  readonly defaultNamespace: string;
+  private managers = new Map<string, KnowledgeGraphManager>();
+
+  constructor(readonly memoryFilePath: string, private options: NamespaceManagerOptions = {}) {
+    this.directory = options.directory ?? path.join(path.dirname(memoryFilePath), 'namespaces');
+    this.defaultNamespace = options.defaultNamespace ?? DEFAULT_NAMESPACE;
+    NamespaceManager.validateName(this.defaultNamespace);
+  }
+
+  private static validateName(name: string): void {
+    if (!NAMESPACE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid namespace name "${name}": use up to 64 letters, digits, "-" or "_", starting with a letter or digit`
+      );
+    }
+  }
+
+  filePathFor(name: string): string {
+    return name === DEFAULT_NAMESPACE ? this.memoryFilePath : path.join(this.directory, `${name}.jsonl`);
+  }
+
+  // Namespaces that are always available, even before anything was written to them
+  private isBuiltIn(name: string): boolean {
+    return name === DEFAULT_NAMESPACE || name === this.defaultNamespace;
+  }
+
+  private async exists(name: string): Promise<boolean> {
+    if (name === DEFAULT_NAMESPACE) return true;
+    for (const file of [`${name}.jsonl`, `${name}.db`]) {
+      if (await fs.access(path.join(this.directory, file)).then(() => true).catch(() => false)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * The manager for a namespace, or for the default namespace when none is given.
+   */
+  async get(namespace?: string): Promise<KnowledgeGraphManager> {
+    const name = namespace ?? this.defaultNamespace;
+    const existing = this.managers.get(name);
+    if (existing) return existing;
+
+    NamespaceManager.validateName(name);
+    if (!this.isBuiltIn(name) && !(await this.exists(name))) {
+      throw new Error(`Namespace ${name} does not exist; create it with create_namespace first`);
+    }
+    if (name !== DEFAULT_NAMESPACE) {
+      // A configured default namespace may be used before the directory exists
+      await fs.mkdir(this.directory, { recursive: true });
+    }
+    const manager = new KnowledgeGraphManager(this.filePathFor(name), this.options);
+    this.managers.set(name, manager);
+    return manager;
+  }
+
+  async list(): Promise<NamespaceInfo[]> {
+    const names = new Set([DEFAULT_NAMESPACE, this.defaultNamespace]);
+    try {
+      for (const file of await fs.readdir(this.directory)) {
+        const match = /^(.+)\.(jsonl|db)$/.exec(file);
+        if (match && NAMESPACE_NAME_PATTERN.test(match[1])) names.add(match[1]);
+      }
+    } catch (error) {
+      if (!isErrnoException(error, 'ENOENT')) throw error;
+    }
+    return [...names].sort().map(name => ({
+      name,
+      filePath: this.filePathFor(name),
+      isDefault: name === this.defaultNamespace,
+    }));
+  }
+
+  async create(name: string): Promise<NamespaceInfo> {
+    NamespaceManager.validateName(name);
+    if (name === DEFAULT_NAMESPACE || await this.exists(name)) {
+      throw new Error(`Namespace ${name} already exists`);
+    }
+    await fs.mkdir(this.directory, { recursive: true });
+    try {
+      // wx: fail instead of overwriting a namespace created concurrently
+      await fs.writeFile(this.filePathFor(name), formatHeader(), { flag: 'wx' });
+    } catch (error) {
+      if (isErrnoException(error, 'EEXIST')) throw new Error(`Namespace ${name} already exists`);
+      throw error;
+    }
+    return { name, filePath: this.filePathFor(name), isDefault: name === this.defaultNamespace };
+  }
+
+  /**
+   * Delete a namespace's graph. A final snapshot is taken first and the snapshot
+   * directory is kept, so re-creating the namespace allows restoring it.
+   */
+  async delete(name: string): Promise<{ deleted: string; snapshot?: string }> {
+    NamespaceManager.validateName(name);
+    if (this.isBuiltIn(name)) {
+      throw new Error(`Namespace ${name} cannot be deleted`);
+    }
+    const manager = await this.get(name);
+    const snapshot = await manager.takeSnapshot('delete_namespace');
+    await manager.close();
+    this.managers.delete(name);
+
+    // The graph and everything stored next to it (operation log, trash, archive,
+    // SQLite files, ...) start with the namespace name and a dot, which no other
+    // namespace's files do. The snapshot directory is not a file. Locks and the
+    // temporary files of writes in progress belong to whoever holds a lock, and
+    // the graph's own lock keeps other writers out meanwhile.
+    await withFileLock(this.filePathFor(name), async () => {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isFile() && entry.name.startsWith(`${name}.`) && !/\.(lock|stale|tmp)$/.test(entry.name)) {
+          await fs.rm(path.join(this.directory, entry.name), { force: true });
+        }
+      }
+    }, this.options.lock);
+    return { deleted: name, snapshot };
+  }
+
+  async close(): Promise<void> {
+    for (const manager of this.managers.values()) {
+      await manager.close();
+    }
+    this.managers.clear();
+  }
+}
+
+let namespaces: NamespaceManager;
+
+// Zod schemas for entities and relations
+const ExpiresSchema = z.string().optional()
+  .describe("When to forget it: an ISO 8601 date, or a duration from now such as 12h, 7d or 2w (default: never)");
+
+const ObservationSchema = z.union([
+  z.string(),
+  z.object({
+    text: z.string().describe("The observation content"),
+    tags: z.array(z.string()).optional().describe("Labels to find the observation by, e.g. 'quirk' or 'purpose'"),
+    confidence: z.number().min(0).max(1).optional().describe("How certain the observation is, from 0 to 1"),
+    source: z.string().optional().describe("Where the observation comes from (default: the source of the write)"),
+    validFrom: z.string().optional().describe("ISO 8601 date from which the fact holds (default: always)"),
+    validTo: z.string().optional().describe("ISO 8601 date at which the fact stops holding (default: still holds)"),
+    expires: ExpiresSchema
+  })
+]).describe("An observation: plain text, or an object with text and optional tags, confidence and source");
+
+const EntitySchema = z.object({
+  name: z.string().describe("The name of the entity"),
+  entityType: z.string().describe("The type of the entity"),
+  observations: z.array(ObservationSchema).describe("An array of observation contents associated with the entity"),
+  aliases: z.array(z.string()).optional().describe("Other names the entity should be found by"),
+  expires: ExpiresSchema
+});
+
+const RelationSchema = z.object({
+  from: z.string().describe("The name of the entity where the relation starts"),
+  to: z.string().describe("The name of the entity where the relation ends"),
+  relationType: z.string().describe("The type of the relation")
+});
+
+const RelationPropertiesSchema = z.record(z.string(), z.unknown())
+  .describe("Free-form relation properties, e.g. { \"weight\": 0.8, \"note\": \"optional dependency\" }");
+
+const NamespaceSchema = z.string().optional()
+  .describe("The memory namespace to use (default: the server's default namespace, see list_namespaces)");
+
+const SourceSchema = z.string().optional()
+  .describe("Label recorded as the source of the new items (default: the name of the connected client)");
+
+const SinceSchema = z.string().optional()
+  .describe("Only include items recorded at or after this ISO 8601 date or timestamp");
+
+const UntilSchema = z.string().optional()
+  .describe("Only include items recorded at or before this ISO 8601 date or timestamp (a plain date includes the whole day)");
+
+const AsOfSchema = z.string().optional()
+  .describe("Read the graph as it stood at this ISO 8601 date or timestamp, including facts retired since (default: current facts only)");
+
+const IncludeExpiredSchema = z.boolean().optional()
+  .describe("Include entities and observations whose expiry has passed but that were not pruned yet (default: false)");
+
+const IncludeArchivedSchema = z.boolean().optional()
+  .describe("Include entities archived with archive_entities and their relations (default: false)");
+
+// The server instance and tools exposed to Claude
+const server = new McpServer({
+  name: "better-memory-mcp",
+  version: "1.0.0",
+});
+
+// Provenance for writes: the caller's label, else the client name sent in the initialize handshake
+function writeOptions(source?: string): WriteOptions {
+  return { source: source ?? server.server.getClientVersion()?.name };
+}
+
+// How the entity names given to a tool resolved, leaving out exact matches
+async function nameResolutions(manager: KnowledgeGraphManager, names: (string | undefined)[]): Promise<NameResolution[]> {
+  const requested = Array.from(new Set(names.filter((name): name is string => name !== undefined)));
+  return (await manager.resolveNames(requested)).filter(r => r.resolution !== 'exact');
+}
+
+// For tools that act on exact names only: names that would have resolved otherwise are reported as suggestions
+async function exactNameResolutions(manager: KnowledgeGraphManager, names: (string | undefined)[]): Promise<NameResolution[]> {
+  return (await nameResolutions(manager, names))
+    .map(r => r.entityName === undefined ? r : { name: r.name, suggestions: [r.entityName] });
+}
+
+// Add non-exact name resolutions and suggestions for unknown names to a tool response
+function withResolutions(
+  resolutions: NameResolution[],
+  response: { content: { type: "text"; text: string }[]; structuredContent: Record<string, unknown> }
+) {
+  if (resolutions.length === 0) return response;
+  const notes = resolutions.map(r => r.entityName !== undefined
+    ? `Resolved "${r.name}" to ${r.entityName} by ${r.resolution}`
+    : `No entity named "${r.name}"${r.suggestions ? ` (did you mean ${r.suggestions.join(', ')}?)` : ''}`);
+  return {
+    content: [...response.content, { type: "text" as const, text: notes.join('\n') }],
+    structuredContent: { ...response.structuredContent, resolutions },
+  };
+}
+
+// Add the schema violations accepted in warn mode to a tool response
+function withWarnings(
+  warnings: SchemaViolation[],
+  response: { content: { type: "text"; text: string }[]; structuredContent: Record<string, unknown> }
+) {
+  if (warnings.length === 0) return response;
+  return {
+    content: [...response.content, { type: "text" as const, text: warnings.map(w => `Warning: ${w.message}`).join('\n') }],
+    structuredContent: { ...response.structuredContent, warnings },
+  };
+}
+
+// The response of a delete tool, pointing to the trash entry when the items were kept
+function deletedResponse(items: string, trashId: string | undefined) {
+  const message = trashId === undefined
+    ? `${items} deleted successfully`
+    : `${items} moved to the trash as entry ${trashId}; restore_from_trash brings them back`;
+  return {
+    content: [{ type: "text" as const, text: message }],
+    structuredContent: { success: true, message, ...(trashId !== undefined && { trashId }) }
+  };
+}
+
+// Register create_entities tool
+server.registerTool(
+  "create_entities",
+  {
+    title: "Create Entities",
+    description: "Create multiple new entities in the knowledge graph. If a schema declares entity types, entities must use them (see define_entity_type); violations are rejected in strict mode and returned as warnings otherwise",
+    inputSchema: {
+      entities: z.array(EntitySchema),
+      source: SourceSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entities, source, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.createEntities(entities, writeOptions(source));
+    return withWarnings(await manager.checkSchema({ entities: result }), {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { entities: result }
+    });
+  }
+);
+
+// Register create_relations tool
+server.registerTool(
+  "create_relations",
+  {
+    title: "Create Relations",
+    description: "Create multiple new relations between entities in the knowledge graph. Relations should be in active voice. If a schema declares relation types, relations must use them with the allowed entity types at either end (see define_relation_type); violations are rejected in strict mode and returned as warnings otherwise",
+    inputSchema: {
+      relations: z.array(RelationSchema.extend({
+        properties: RelationPropertiesSchema.optional(),
+        validFrom: z.string().optional().describe("ISO 8601 date from which the relation holds (default: always)"),
+        validTo: z.string().optional().describe("ISO 8601 date at which the relation stops holding (default: still holds)")
+      })),
+      source: SourceSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ relations, source, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.createRelations(relations, writeOptions(source));
+    return withWarnings(await manager.checkSchema({ relations: result }), {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { relations: result }
+    });
+  }
+);
+
+// Register add_observations tool
+server.registerTool(
+  "add_observations",
+  {
+    title: "Add Observations",
+    description: "Add new observations to existing entities in the knowledge graph. Observations may be plain text or objects with tags, a confidence and a source",
+    inputSchema: {
+      observations: z.array(z.object({
+        entityName: z.string().describe("The name of the entity to add the observations to"),
+        contents: z.array(ObservationSchema).describe("An array of observation contents to add")
+      })),
+      source: SourceSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ observations, source, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, observations.map(o => o.entityName));
+    const result = await manager.addObservations(observations, writeOptions(source));
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { results: result }
+    });
+  }
+);
+
+// Register rename_entity tool
+server.registerTool(
+  "rename_entity",
+  {
+    title: "Rename Entity",
+    description: "Rename an entity in place, updating every relation that references it. Fails if the new name is already taken.",
+    inputSchema: {
+      name: z.string().describe("The current name (or an alias) of the entity"),
+      newName: z.string().describe("The new name of the entity"),
+      keepAlias: z.boolean().optional()
+        .describe("Keep the old name as an alias so lookups by it still find the entity (default: false)"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async ({ name, newName, keepAlias, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [name]);
+    const result = await manager.renameEntity(name, newName, { keepAlias });
+    return withResolutions(resolutions, withWarnings(await manager.checkSchema({ entities: [result.entity] }, { withRelations: true }), {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    }));
+  }
+);
+
+// Register set_entity_type tool
+server.registerTool(
+  "set_entity_type",
+  {
+    title: "Set Entity Type",
+    description: "Change the type of an existing entity, keeping its observations and relations. If a schema declares entity types, the new type must be declared and allowed by the entity's relations; violations are rejected in strict mode and returned as warnings otherwise",
+    inputSchema: {
+      name: z.string().describe("The name (or an alias) of the entity"),
+      entityType: z.string().describe("The new type of the entity"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ name, entityType, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [name]);
+    const result = await manager.setEntityType(name, entityType);
+    return withResolutions(resolutions, withWarnings(await manager.checkSchema({ entities: [result] }, { withRelations: true }), {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { entity: result }
+    }));
+  }
+);
+
+// Register update_aliases tool
+server.registerTool(
+  "update_aliases",
+  {
+    title: "Update Aliases",
+    description: "Add or remove aliases of an entity. Tools that take entity names find an entity by its aliases as well as its name.",
+    inputSchema: {
+      name: z.string().describe("The name (or an alias) of the entity"),
+      add: z.array(z.string()).optional().describe("Aliases to add"),
+      remove: z.array(z.string()).optional().describe("Aliases to remove"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ name, add, remove, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [name]);
+    const result = await manager.updateAliases(name, { add, remove });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { entity: result }
+    });
+  }
+);
+
+// Register merge_entities tool
+server.registerTool(
+  "merge_entities",
+  {
+    title: "Merge Entities",
+    description: "Fold duplicate entities into a surviving entity: their observations are added to it, their relations are moved to it (dropping duplicates and self-loops), and they are deleted; their names and aliases become aliases of the survivor. The survivor keeps its type; differing types are reported. Use find_duplicate_entities to find candidates.",
+    inputSchema: {
+      survivor: z.string().describe("The name of the entity to keep"),
+      entityNames: z.array(z.string()).describe("The names of the entities to merge into the survivor"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ survivor, entityNames, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await exactNameResolutions(manager, [survivor, ...entityNames]);
+    const result = await manager.mergeEntities(survivor, entityNames);
+    return withResolutions(resolutions, withWarnings(await manager.checkSchema({ entities: [result.entity] }, { withRelations: true }), {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    }));
+  }
+);
+
+// Register find_duplicate_entities tool
+server.registerTool(
+  "find_duplicate_entities",
+  {
+    title: "Find Duplicate Entities",
+    description: "Find pairs of entities whose names are likely duplicates (e.g. 'AuthService', 'auth-service' and 'Auth Service'), with a similarity score from 0 to 1. Names are compared ignoring case, spaces and punctuation, allowing small typos.",
+    inputSchema: {
+      threshold: z.number().min(0).max(1).optional()
+        .describe("Minimum similarity for a pair to be reported (default: 0.8)"),
+      entityType: z.string().optional().describe("Only compare entities of this type"),
+      limit: z.number().optional().describe("Maximum number of pairs to return"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ threshold, entityType, limit, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const candidates = await manager.findDuplicateEntities({ threshold, entityType, limit });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(candidates, null, 2) }],
+      structuredContent: { candidates }
+    };
+  }
+);
+
+// Register delete_entities tool
+server.registerTool(
+  "delete_entities",
+  {
+    title: "Delete Entities",
+    description: "Delete multiple entities and their associated relations from the knowledge graph. Unless soft deletes are disabled, they are moved to the trash together with the relations and can be brought back with restore_from_trash.",
+    inputSchema: {
+      entityNames: z.array(z.string()).describe("An array of entity names to delete"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityNames, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await exactNameResolutions(manager, entityNames);
+    const trashId = await manager.deleteEntities(entityNames);
+    return withResolutions(resolutions, deletedResponse("Entities", trashId));
+  }
+);
+
+// Register archive_entities tool
+server.registerTool(
+  "archive_entities",
+  {
+    title: "Archive Entities",
+    description: "Archive obsolete entities such as old designs or retired services instead of deleting them. Archived entities keep their observations and relations but are left out of every read tool unless includeArchived is passed; get_neighbors lists them as stubs so references stay visible. Returns the archived entities and the relations hidden with them.",
+    inputSchema: {
+      entityNames: z.array(z.string()).describe("The names of the entities to archive"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityNames, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, entityNames);
+    const result = await manager.archiveEntities(entityNames);
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result }
+    });
+  }
+);
+
+// Register unarchive_entities tool
+server.registerTool(
+  "unarchive_entities",
+  {
+    title: "Unarchive Entities",
+    description: "Bring entities archived with archive_entities back into reads. Returns the entities and the relations that are visible again.",
+    inputSchema: {
+      entityNames: z.array(z.string()).describe("The names of the archived entities to restore"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityNames, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, entityNames);
+    const result = await manager.unarchiveEntities(entityNames);
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result }
+    });
+  }
+);
+
+// Register update_observations tool
+server.registerTool(
+  "update_observations",
+  {
+    title: "Update Observations",
+    description: "Correct observations in place, keeping their position. Address each observation by its exact text or by its index (as returned by search_observations). Replacements that match nothing are reported in 'failed' instead of being ignored.",
+    inputSchema: {
+      updates: z.array(z.object({
+        entityName: z.string().describe("The name of the entity whose observations to update"),
+        updates: z.array(z.object({
+          observation: z.string().optional().describe("The exact text of the observation to replace"),
+          index: z.number().int().min(0).optional().describe("The zero-based index of the observation to replace"),
+          newObservation: ObservationSchema
+        }))
+      })),
+      source: SourceSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async ({ updates, source, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, updates.map(u => u.entityName));
+    const result = await manager.updateObservations(updates, writeOptions(source));
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { results: result }
+    });
+  }
+);
+
+// Register replace_in_observations tool
+server.registerTool(
+  "replace_in_observations",
+  {
+    title: "Replace In Observations",
+    description: "Apply a regular expression substitution to the observations of the given entities (or of all entities), keeping their order. Observations that become empty or duplicate another observation are removed.",
+    inputSchema: {
+      pattern: z.string().describe("The regular expression to search for"),
+      replacement: z.string().describe("The replacement text; $1, $2, ... refer to capture groups"),
+      entityNames: z.array(z.string()).optional().describe("The entities to update (default: all entities)"),
+      flags: z.string().optional().describe("Regular expression flags (default: 'g')"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false
+    }
+  },
+  async ({ pattern, replacement, entityNames, flags, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, entityNames ?? []);
+    const result = await manager.replaceInObservations(pattern, replacement, { entityNames, flags });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { results: result }
+    });
+  }
+);
+
+// Register delete_observations tool
+server.registerTool(
+  "delete_observations",
+  {
+    title: "Delete Observations",
+    description: "Delete specific observations from entities in the knowledge graph. Unless soft deletes are disabled, they are moved to the trash and can be brought back with restore_from_trash.",
+    inputSchema: {
+      deletions: z.array(z.object({
+        entityName: z.string().describe("The name of the entity containing the observations"),
+        observations: z.array(z.string()).describe("An array of observations to delete")
+      })),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ deletions, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await exactNameResolutions(manager, deletions.map(d => d.entityName));
+    const trashId = await manager.deleteObservations(deletions);
+    return withResolutions(resolutions, deletedResponse("Observations", trashId));
+  }
+);
+
+// Register retire_observations tool
+server.registerTool(
+  "retire_observations",
+  {
+    title: "Retire Observations",
+    description: "Mark observations as no longer true instead of deleting them, e.g. 'Uses Postgres' after moving to DynamoDB. Retired observations are left out of current reads but still appear in reads with an asOf date before their retirement, so the history is kept.",
+    inputSchema: {
+      retirements: z.array(z.object({
+        entityName: z.string().describe("The name of the entity containing the observations"),
+        observations: z.array(z.string()).describe("The exact observations to retire")
+      })),
+      validTo: z.string().optional().describe("ISO 8601 date at which the observations stopped holding (default: now)"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ retirements, validTo, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, retirements.map(r => r.entityName));
+    const results = await manager.retireObservations(retirements, { validTo });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(results, null, 2) }],
+      structuredContent: { results }
+    });
+  }
+);
+
+// Register update_relation tool
+server.registerTool(
+  "update_relation",
+  {
+    title: "Update Relation",
+    description: "Set properties of an existing relation. Properties are merged into the current ones; set a property to null to remove it, or pass replace to replace all properties. Set validTo to retire a relation that no longer holds while keeping it for asOf reads.",
+    inputSchema: {
+      ...RelationSchema.shape,
+      properties: RelationPropertiesSchema,
+      replace: z.boolean().optional().describe("Replace all current properties instead of merging (default: false)"),
+      validFrom: z.string().optional().describe("ISO 8601 date from which the relation holds"),
+      validTo: z.string().optional().describe("ISO 8601 date at which the relation stops holding"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ from, to, relationType, properties, replace, validFrom, validTo, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [from, to]);
+    const result = await manager.updateRelation({ from, to, relationType }, properties, { replace, validFrom, validTo });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { relation: result }
+    });
+  }
+);
+
+// Register delete_relations tool
+server.registerTool(
+  "delete_relations",
+  {
+    title: "Delete Relations",
+    description: "Delete multiple relations from the knowledge graph. Unless soft deletes are disabled, they are moved to the trash and can be brought back with restore_from_trash.",
+    inputSchema: {
+      relations: z.array(RelationSchema).describe("An array of relations to delete"),
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ relations, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await exactNameResolutions(manager, relations.flatMap(r => [r.from, r.to]));
+    const trashId = await manager.deleteRelations(relations);
+    return withResolutions(resolutions, deletedResponse("Relations", trashId));
+  }
+);
+
+// Register read_graph tool
+server.registerTool(
+  "read_graph",
+  {
+    title: "Read Graph",
+    description: "Read the entire knowledge graph",
+    inputSchema: {
+      asOf: AsOfSchema,
+      includeExpired: IncludeExpiredSchema,
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ asOf, includeExpired, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const graph = await manager.readGraph({ asOf, includeExpired, includeArchived });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
+      structuredContent: { ...graph }
+    };
+  }
+);
+
+// Register search_nodes tool (enhanced with advanced query support)
+server.registerTool(
+  "search_nodes",
+  {
+    title: "Search Nodes",
+    description: `Search for nodes in the knowledge graph with advanced query support.
+
+Use for entity discovery: "what modules exist", "find all services related to auth", "which components handle payments". Returns full entities with all observations. Best when you need complete context about something or don't know what entities exist.
+
+Query Syntax:
+- Multiple words: OR logic (matches any word)
+- +term: Required (must be present)
+- -term: Excluded (must NOT be present)
+- "phrase": Exact phrase match
+- name:value: Search only entity names
+- type:value: Search only entity types
+- obs:value: Search only observations
+- tag:value: Only entities with an observation carrying the tag
+
+Examples:
+- "auth module" - finds entities matching "auth" OR "module"
+- "+auth +security" - finds entities matching BOTH "auth" AND "security"
+- "auth -deprecated" - finds "auth" but excludes "deprecated"
+- "name:AuthService type:Module" - finds AuthService of type Module
+- "tag:quirk" - finds entities with observations tagged quirk
+- "\"tech debt\"" - finds exact phrase "tech debt"
+
+Use since/until to restrict results to entities changed at or after since and created at or before until.`,
+    inputSchema: {
+      query: z.string().describe("The search query (supports boolean operators and field prefixes)"),
+      includeNeighbors: z.boolean().optional()
+        .describe("Include 1-hop connected entities in results (default: false)"),
+      fuzzy: z.boolean().optional()
+        .describe("Enable fuzzy matching for typo tolerance (default: false)"),
+      limit: z.number().optional()
+        .describe("Maximum number of results to return"),
+      exactType: z.boolean().optional()
+        .describe("Match type: against entity types only, without their declared subtypes (default: false)"),
+      since: SinceSchema,
+      until: UntilSchema,
+      asOf: AsOfSchema,
+      includeExpired: IncludeExpiredSchema,
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ query, includeNeighbors, fuzzy, limit, exactType, since, until, asOf, includeExpired, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.searchNodes(query, {
+      includeNeighbors, fuzzy, limit, exactType, since, until, asOf, includeExpired, includeArchived
+    });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register open_nodes tool
+server.registerTool(
+  "open_nodes",
+  {
+    title: "Open Nodes",
+    description: "Open specific nodes in the knowledge graph by their names. Names are matched exactly, then by alias, then ignoring case, spaces and punctuation; non-exact matches and suggestions for unknown names are listed in 'resolutions'.",
+    inputSchema: {
+      names: z.array(z.string()).describe("An array of entity names to retrieve"),
+      asOf: AsOfSchema,
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ names, asOf, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, names);
+    const graph = await manager.openNodes(names, { asOf, includeArchived });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
+      structuredContent: { ...graph }
+    });
+  }
+);
+
+// Register get_neighbors tool
+server.registerTool(
+  "get_neighbors",
+  {
+    title: "Get Neighbors",
+    description: "Get all entities directly connected to a given entity via relations. Useful for exploring the graph around a known entity. Relations of symmetric types or types with a declared inverse (see define_relation_type) also answer queries phrased the other way, marked inferred: true. Archived neighbors are listed as stubs with their name, type and archivedAt only.",
+    inputSchema: {
+      entityName: z.string().describe("The name of the entity to find neighbors for"),
+      direction: z.enum(['incoming', 'outgoing', 'both']).optional()
+        .describe("Filter by relation direction: incoming (points TO this entity), outgoing (FROM this entity), or both (default)"),
+      relationType: z.string().optional()
+        .describe("Filter by specific relation type (e.g., 'imports', 'calls')"),
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityName, direction, relationType, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [entityName]);
+    const neighbors = await manager.getNeighbors(entityName, { direction, relationType, includeArchived });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(neighbors, null, 2) }],
+      structuredContent: { neighbors }
+    });
+  }
+);
+
+// Register find_path tool
+server.registerTool(
+  "find_path",
+  {
+    title: "Find Path",
+    description: "Find the shortest path between two entities in the knowledge graph using breadth-first search, or the path with the lowest total weight when weightProperty is given. Relations traversed backwards are reported by their inverse or symmetric reading where declared. Returns null if no path exists.",
+    inputSchema: {
+      fromEntity: z.string().describe("The name of the starting entity"),
+      toEntity: z.string().describe("The name of the target entity"),
+      maxDepth: z.number().optional().describe("Maximum path length to search (default: 10)"),
+      weightProperty: z.string().optional()
+        .describe("Relation property to use as the cost of each step, e.g. 'weight'; relations without it cost 1"),
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ fromEntity, toEntity, maxDepth, weightProperty, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [fromEntity, toEntity]);
+    const result = await manager.findPath(fromEntity, toEntity, maxDepth ?? 10, weightProperty, { includeArchived });
+    if (result) {
+      return withResolutions(resolutions, {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        structuredContent: result
+      });
+    } else {
+      return withResolutions(resolutions, {
+        content: [{ type: "text" as const, text: "No path found between the specified entities" }],
+        structuredContent: { path: null, relations: null, length: null }
+      });
+    }
+  }
+);
+
+// Register get_subgraph tool
+server.registerTool(
+  "get_subgraph",
+  {
+    title: "Get Subgraph",
+    description: "Extract a subgraph containing the specified entities and their N-hop neighborhood. Useful for understanding the context around multiple related entities.",
+    inputSchema: {
+      entityNames: z.array(z.string()).describe("Seed entity names to build the subgraph around"),
+      depth: z.number().optional().describe("Number of hops to expand from seed entities (default: 1)"),
+      asOf: AsOfSchema,
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityNames, depth, asOf, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, entityNames);
+    const result = await manager.getSubgraph(entityNames, depth ?? 1, { asOf, includeArchived });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    });
+  }
+);
+
+// Register filter_by_type tool
+server.registerTool(
+  "filter_by_type",
+  {
+    title: "Filter By Type",
+    description: "Get all entities of a specific type (e.g., 'Module', 'Service', 'Pattern', 'Decision'), including its subtypes declared with define_type_hierarchy. Returns entities and relations between them.",
+    inputSchema: {
+      entityType: z.string().describe("The entity type to filter by (case-insensitive)"),
+      exact: z.boolean().optional().describe("Only match the type itself, not its subtypes (default: false)"),
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ entityType, exact, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.filterByType(entityType, { exact, includeArchived });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register filter_relations tool
+server.registerTool(
+  "filter_relations",
+  {
+    title: "Filter Relations",
+    description: "Filter relations by type, source entity, target entity, or properties. Returns matching relations and their connected entities. Relations of symmetric types or types with a declared inverse also match when read the other way, marked inferred: true.",
+    inputSchema: {
+      relationType: z.string().optional().describe("Filter by relation type (e.g., 'imports', 'calls', 'implements')"),
+      fromEntity: z.string().optional().describe("Filter by source entity name"),
+      toEntity: z.string().optional().describe("Filter by target entity name"),
+      properties: z.string().optional()
+        .describe("Filter by relation properties: comma-separated conditions using =, !=, >, >=, <, <= (e.g., 'weight>0.5, optional=true'), or a bare name to require the property"),
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ relationType, fromEntity, toEntity, properties, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const resolutions = await nameResolutions(manager, [fromEntity, toEntity]);
+    const result = await manager.filterRelations({ relationType, fromEntity, toEntity, properties, includeArchived });
+    return withResolutions(resolutions, {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    });
+  }
+);
+
+// Register filter_observations tool
+server.registerTool(
+  "filter_observations",
+  {
+    title: "Filter By Observation Pattern",
+    description: `Find entities with observations matching a pattern. Supports preset patterns and custom regex.
+
+Preset patterns:
+- "dated" - Observations starting with [YYYY-MM-DD]
+- "techdebt" - Observations containing tech debt markers (TODO, FIXME, HACK)
+- "deprecated" - Observations mentioning deprecated
+- "purpose" - Observations containing "Purpose:"
+- "quirk" - Observations containing "Quirk:"
+
+Or provide a custom regex pattern.`,
+    inputSchema: {
+      pattern: z.string().describe("Pattern name (dated, techdebt, deprecated, purpose, quirk) or a custom regex"),
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ pattern, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const entities = await manager.filterByObservation(pattern, { includeArchived });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify({ entities }, null, 2) }],
+      structuredContent: { entities }
+    };
+  }
+);
+
+// Register search_observations tool
+server.registerTool(
+  "search_observations",
+  {
+    title: "Search Observations",
+    description: `Search at the observation level, returning individual matching observations with their parent entity context.
 
-// Zod schemas for entities and relations
-const EntitySchema = z.object({
-  name: z.string().describe("The name of the entity"),
-  entityType: z.string().describe("The type of the entity"),
-  observations: z.array(z.string()).describe("An array of observation contents associated with the entity")
-});
+Use for fact-finding: "when was X deprecated", "what's the status of Y", "why did we choose Z". Returns individual observations without entity bloat. Best when you need specific information buried within large entities, or when searching across a codebase for scattered implementation notes.
 
-const RelationSchema = z.object({
-  from: z.string().describe("The name of the entity where the relation starts"),
-  to: z.string().describe("The name of the entity where the relation ends"),
-  relationType: z.string().describe("The type of the relation")
-});
+Query Syntax (same as search_nodes):
+- Multiple words: OR logic (matches any word)
+- +term: Required (must be present)
+- -term: Excluded (must NOT be present)
+- "phrase": Exact phrase match
+- tag:value: Only observations carrying the tag
 
-// The server instance and tools exposed to Claude
-const server = new McpServer({
-  name: "better-memory-mcp",
-  version: "1.0.0",
-});
+Examples:
+- "auth security" - finds observations mentioning auth OR security
+- "+deprecated +2024" - finds observations with BOTH terms
+- "TODO -completed" - finds TODO mentions excluding completed ones
+- "tag:quirk auth" - finds quirk-tagged observations mentioning auth`,
+    inputSchema: {
+      query: z.string().describe("The search query (supports boolean operators)"),
+      limit: z.number().optional()
+        .describe("Maximum number of observations to return (default: 10)"),
+      includeEntity: z.boolean().optional()
+        .describe("Include full parent entities in response (default: false)"),
+      fuzzy: z.boolean().optional()
+        .describe("Enable fuzzy matching for typo tolerance (default: false)"),
+      since: SinceSchema,
+      until: UntilSchema,
+      asOf: AsOfSchema,
+      includeExpired: IncludeExpiredSchema,
+      includeArchived: IncludeArchivedSchema,
+      namespace: NamespaceSchema
+    },
+    annotations: {
+      readOnlyHint: true,
+      openWorldHint: false
+    }
+  },
+  async ({ query, limit, includeEntity, fuzzy, since, until, asOf, includeExpired, includeArchived, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.searchObservations(query, {
+      limit, includeEntity, fuzzy, since, until, asOf, includeExpired, includeArchived
+    });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
 
-// Register create_entities tool
+// Register define_entity_type tool
 server.registerTool(
-  "create_entities",
+  "define_entity_type",
   {
-    title: "Create Entities",
-    description: "Create multiple new entities in the knowledge graph",
+    title: "Define Entity Type",
+    description: "Declare an entity type in the schema, replacing an earlier definition with the same name. Once any entity type is declared, entities of undeclared types are schema violations, which keeps types such as 'Module', 'module' and 'Modules' from drifting apart.",
     inputSchema: {
-      entities: z.array(EntitySchema)
+      name: z.string().describe("The entity type, spelled exactly as entities should use it"),
+      description: z.string().optional().describe("What entities of this type represent"),
+      requiredObservationPrefixes: z.array(z.string()).optional()
+        .describe("Prefixes that must each begin some observation of every entity of this type, e.g. 'Purpose:'"),
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: false,
@@ -930,23 +6498,30 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async ({ entities }) => {
-    const result = await knowledgeGraphManager.createEntities(entities);
+  async ({ name, description, requiredObservationPrefixes, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const entityType = await manager.defineEntityType({ name, description, requiredObservationPrefixes });
     return {
-      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: { entities: result }
+      content: [{ type: "text" as const, text: JSON.stringify(entityType, null, 2) }],
+      structuredContent: { entityType }
     };
   }
 );
 
-// Register create_relations tool
+// Register define_relation_type tool
 server.registerTool(
-  "create_relations",
+  "define_relation_type",
   {
-    title: "Create Relations",
-    description: "Create multiple new relations between entities in the knowledge graph. Relations should be in active voice",
+    title: "Define Relation Type",
+    description: "Declare a relation type in the schema with the entity types allowed at either end, e.g. implements from Class to Interface, replacing an earlier definition with the same name. Once any relation type is declared, relations of undeclared types are schema violations. A symmetric type (relatedTo) or one with an inverse (imports/importedBy) is stored once and can be queried in either direction.",
     inputSchema: {
-      relations: z.array(RelationSchema)
+      name: z.string().describe("The relation type, spelled exactly as relations should use it"),
+      description: z.string().optional().describe("What the relation means"),
+      domain: z.array(z.string()).optional().describe("Entity types allowed as the source (default: any)"),
+      range: z.array(z.string()).optional().describe("Entity types allowed as the target (default: any)"),
+      symmetric: z.boolean().optional().describe("Whether the relation holds both ways, like relatedTo"),
+      inverse: z.string().optional().describe("Name of the relation read from the target, e.g. importedBy for imports"),
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: false,
@@ -955,26 +6530,26 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async ({ relations }) => {
-    const result = await knowledgeGraphManager.createRelations(relations);
+  async ({ name, description, domain, range, symmetric, inverse, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const relationType = await manager.defineRelationType({ name, description, domain, range, symmetric, inverse });
     return {
-      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: { relations: result }
+      content: [{ type: "text" as const, text: JSON.stringify(relationType, null, 2) }],
+      structuredContent: { relationType }
     };
   }
 );
 
-// Register add_observations tool
+// Register define_type_hierarchy tool
 server.registerTool(
-  "add_observations",
+  "define_type_hierarchy",
   {
-    title: "Add Observations",
-    description: "Add new observations to existing entities in the knowledge graph",
+    title: "Define Type Hierarchy",
+    description: "Declare the subtypes of an entity type, e.g. Service, Repository and Controller as kinds of Component, replacing the subtypes declared for it before. filter_by_type and type: queries for a type then include its subtypes, transitively, and relation types accept subtypes wherever their domain or range names a type.",
     inputSchema: {
-      observations: z.array(z.object({
-        entityName: z.string().describe("The name of the entity to add the observations to"),
-        contents: z.array(z.string()).describe("An array of observation contents to add")
-      }))
+      parent: z.string().describe("The more general entity type"),
+      subtypes: z.array(z.string()).describe("Its direct subtypes; an empty list removes them"),
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: false,
@@ -983,51 +6558,52 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async ({ observations }) => {
-    const result = await knowledgeGraphManager.addObservations(observations);
+  async ({ parent, subtypes, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.defineTypeHierarchy(parent, subtypes);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: { results: result }
+      structuredContent: result
     };
   }
 );
 
-// Register delete_entities tool
+// Register validate_graph tool
 server.registerTool(
-  "delete_entities",
+  "validate_graph",
   {
-    title: "Delete Entities",
-    description: "Delete multiple entities and their associated relations from the knowledge graph",
+    title: "Validate Graph",
+    description: "Check the knowledge graph against its schema, listing entities with undeclared types or missing required observations and relations with undeclared types or disallowed endpoint types",
     inputSchema: {
-      entityNames: z.array(z.string()).describe("An array of entity names to delete")
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
+      readOnlyHint: true,
       openWorldHint: false
     }
   },
-  async ({ entityNames }) => {
-    await knowledgeGraphManager.deleteEntities(entityNames);
+  async ({ namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.validateGraph();
     return {
-      content: [{ type: "text" as const, text: "Entities deleted successfully" }],
-      structuredContent: { success: true, message: "Entities deleted successfully" }
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result }
     };
   }
 );
 
-// Register delete_observations tool
+// Register prune_expired tool
 server.registerTool(
-  "delete_observations",
+  "prune_expired",
   {
-    title: "Delete Observations",
-    description: "Delete specific observations from entities in the knowledge graph",
+    title: "Prune Expired",
+    description: `Remove the entities and observations whose expiry (set with expires when they were created) has passed, together with the relations of the removed entities. Expired items are already hidden from reads; pruning removes them from the memory file.
+
+In archive mode (the default) they are kept in <memory file>.archive.jsonl, which can be mounted to read them again; in delete mode they are dropped. A snapshot is taken first.`,
     inputSchema: {
-      deletions: z.array(z.object({
-        entityName: z.string().describe("The name of the entity containing the observations"),
-        observations: z.array(z.string()).describe("An array of observations to delete")
-      }))
+      mode: z.enum(['archive', 'delete']).optional()
+        .describe("Keep the pruned items in the archive file or drop them (default: archive)"),
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: false,
@@ -1036,23 +6612,28 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async ({ deletions }) => {
-    await knowledgeGraphManager.deleteObservations(deletions);
+  async ({ mode, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.pruneExpired({ mode });
     return {
-      content: [{ type: "text" as const, text: "Observations deleted successfully" }],
-      structuredContent: { success: true, message: "Observations deleted successfully" }
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
     };
   }
 );
 
-// Register delete_relations tool
+// Register repair_memory tool
 server.registerTool(
-  "delete_relations",
+  "repair_memory",
   {
-    title: "Delete Relations",
-    description: "Delete multiple relations from the knowledge graph",
+    title: "Repair Memory",
+    description: `Check the memory file for lines that could not be loaded (unparseable JSON after a crash, manual edits with missing fields, unknown record types). Such lines are skipped while loading so the rest of the graph stays usable.
+
+Without rewrite, only reports the skipped lines. With rewrite: true, writes a cleaned file without them and keeps the original as <memory file>.corrupt.`,
     inputSchema: {
-      relations: z.array(RelationSchema).describe("An array of relations to delete")
+      rewrite: z.boolean().optional()
+        .describe("Rewrite the memory file without the invalid lines, keeping a .corrupt backup (default: false)"),
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: false,
@@ -1061,76 +6642,62 @@ server.registerTool(
       openWorldHint: false
     }
   },
-  async ({ relations }) => {
-    await knowledgeGraphManager.deleteRelations(relations);
+  async ({ rewrite, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.repairMemory(rewrite ?? false);
     return {
-      content: [{ type: "text" as const, text: "Relations deleted successfully" }],
-      structuredContent: { success: true, message: "Relations deleted successfully" }
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
     };
   }
 );
 
-// Register read_graph tool
+// Register list_snapshots tool
 server.registerTool(
-  "read_graph",
+  "list_snapshots",
   {
-    title: "Read Graph",
-    description: "Read the entire knowledge graph",
-    inputSchema: {},
+    title: "List Snapshots",
+    description: `List the automatic snapshots of the knowledge graph, newest first, with their size and entity/relation counts.
+
+Snapshots are taken periodically while the graph is being modified and always before delete_entities, delete_observations, delete_relations, prune_expired and restore_snapshot. Only the most recent ones are kept.`,
+    inputSchema: {
+      namespace: NamespaceSchema
+    },
     annotations: {
       readOnlyHint: true,
       openWorldHint: false
     }
   },
-  async () => {
-    const graph = await knowledgeGraphManager.readGraph();
+  async ({ namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const snapshots = await manager.listSnapshots();
     return {
-      content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
-      structuredContent: { ...graph }
+      content: [{ type: "text" as const, text: JSON.stringify(snapshots, null, 2) }],
+      structuredContent: { snapshots }
     };
   }
 );
 
-// Register search_nodes tool (enhanced with advanced query support)
+// Register restore_snapshot tool
 server.registerTool(
-  "search_nodes",
+  "restore_snapshot",
   {
-    title: "Search Nodes",
-    description: `Search for nodes in the knowledge graph with advanced query support.
-
-Use for entity discovery: "what modules exist", "find all services related to auth", "which components handle payments". Returns full entities with all observations. Best when you need complete context about something or don't know what entities exist.
-
-Query Syntax:
-- Multiple words: OR logic (matches any word)
-- +term: Required (must be present)
-- -term: Excluded (must NOT be present)
-- "phrase": Exact phrase match
-- name:value: Search only entity names
-- type:value: Search only entity types
-- obs:value: Search only observations
-
-Examples:
-- "auth module" - finds entities matching "auth" OR "module"
-- "+auth +security" - finds entities matching BOTH "auth" AND "security"
-- "auth -deprecated" - finds "auth" but excludes "deprecated"
-- "name:AuthService type:Module" - finds AuthService of type Module
-- "\"tech debt\"" - finds exact phrase "tech debt"`,
+    title: "Restore Snapshot",
+    description: "Replace the entire knowledge graph with the contents of a snapshot from list_snapshots. The current graph is snapshotted first, so the restore can be reverted by restoring that snapshot.",
     inputSchema: {
-      query: z.string().describe("The search query (supports boolean operators and field prefixes)"),
-      includeNeighbors: z.boolean().optional()
-        .describe("Include 1-hop connected entities in results (default: false)"),
-      fuzzy: z.boolean().optional()
-        .describe("Enable fuzzy matching for typo tolerance (default: false)"),
-      limit: z.number().optional()
-        .describe("Maximum number of results to return")
+      id: z.string().describe("The id of the snapshot to restore"),
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
       openWorldHint: false
     }
   },
-  async ({ query, includeNeighbors, fuzzy, limit }) => {
-    const result = await knowledgeGraphManager.searchNodes(query, { includeNeighbors, fuzzy, limit });
+  async ({ id, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.restoreSnapshot(id);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
       structuredContent: result
@@ -1138,242 +6705,302 @@ Examples:
   }
 );
 
-// Register open_nodes tool
+// Register list_trash tool
 server.registerTool(
-  "open_nodes",
+  "list_trash",
   {
-    title: "Open Nodes",
-    description: "Open specific nodes in the knowledge graph by their names",
+    title: "List Trash",
+    description: "List the entries of the trash, newest first. Each delete_entities, delete_observations or delete_relations call adds one entry holding the deleted items and the relations deleted along with entities.",
     inputSchema: {
-      names: z.array(z.string()).describe("An array of entity names to retrieve")
+      namespace: NamespaceSchema
     },
     annotations: {
       readOnlyHint: true,
       openWorldHint: false
     }
   },
-  async ({ names }) => {
-    const graph = await knowledgeGraphManager.openNodes(names);
+  async ({ namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const entries = await manager.listTrash();
     return {
-      content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
-      structuredContent: { ...graph }
+      content: [{ type: "text" as const, text: JSON.stringify(entries, null, 2) }],
+      structuredContent: { entries }
     };
   }
 );
 
-// Register get_neighbors tool
+// Register restore_from_trash tool
 server.registerTool(
-  "get_neighbors",
+  "restore_from_trash",
   {
-    title: "Get Neighbors",
-    description: "Get all entities directly connected to a given entity via relations. Useful for exploring the graph around a known entity.",
+    title: "Restore From Trash",
+    description: "Restore the items of a trash entry, including the relations deleted along with its entities, and remove the entry from the trash. Entities that were created again in the meantime are kept as they are, and relations whose other entity no longer exists are skipped; both are listed in 'skipped'.",
     inputSchema: {
-      entityName: z.string().describe("The name of the entity to find neighbors for"),
-      direction: z.enum(['incoming', 'outgoing', 'both']).optional()
-        .describe("Filter by relation direction: incoming (points TO this entity), outgoing (FROM this entity), or both (default)"),
-      relationType: z.string().optional()
-        .describe("Filter by specific relation type (e.g., 'imports', 'calls')")
+      id: z.string().describe("Trash entry id from list_trash or a delete tool"),
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async ({ entityName, direction, relationType }) => {
-    const neighbors = await knowledgeGraphManager.getNeighbors(entityName, { direction, relationType });
+  async ({ id, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.restoreFromTrash(id);
     return {
-      content: [{ type: "text" as const, text: JSON.stringify(neighbors, null, 2) }],
-      structuredContent: { neighbors }
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
     };
   }
 );
 
-// Register find_path tool
+// Register purge_trash tool
 server.registerTool(
-  "find_path",
+  "purge_trash",
   {
-    title: "Find Path",
-    description: "Find the shortest path between two entities in the knowledge graph using breadth-first search. Returns null if no path exists.",
+    title: "Purge Trash",
+    description: "Permanently remove entries from the trash: the given ids, the entries deleted before a date, or the whole trash when neither is given. Purged items can no longer be restored.",
     inputSchema: {
-      fromEntity: z.string().describe("The name of the starting entity"),
-      toEntity: z.string().describe("The name of the target entity"),
-      maxDepth: z.number().optional().describe("Maximum path length to search (default: 10)")
+      ids: z.array(z.string()).optional().describe("Trash entry ids to purge"),
+      before: z.string().optional().describe("Only purge entries deleted before this ISO 8601 date or timestamp"),
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
       openWorldHint: false
     }
   },
-  async ({ fromEntity, toEntity, maxDepth }) => {
-    const result = await knowledgeGraphManager.findPath(fromEntity, toEntity, maxDepth ?? 10);
-    if (result) {
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-        structuredContent: result
-      };
-    } else {
-      return {
-        content: [{ type: "text" as const, text: "No path found between the specified entities" }],
-        structuredContent: { path: null, relations: null, length: null }
-      };
-    }
+  async ({ ids, before, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const purged = await manager.purgeTrash({ ids, before });
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(purged, null, 2) }],
+      structuredContent: { purged }
+    };
   }
 );
 
-// Register get_subgraph tool
+// Tools whose changes are recorded in the operation log, one entry per call
+const UNDOABLE_TOOLS = [
+  'create_entities', 'create_relations', 'add_observations', 'rename_entity', 'set_entity_type', 'update_aliases',
+  'merge_entities', 'delete_entities', 'archive_entities', 'unarchive_entities', 'update_observations',
+  'replace_in_observations', 'delete_observations', 'retire_observations', 'update_relation', 'delete_relations',
+  'prune_expired', 'restore_snapshot', 'restore_from_trash',
+];
+
+// Register undo tool
 server.registerTool(
-  "get_subgraph",
+  "undo",
   {
-    title: "Get Subgraph",
-    description: "Extract a subgraph containing the specified entities and their N-hop neighborhood. Useful for understanding the context around multiple related entities.",
+    title: "Undo",
+    description: `Revert the most recent changes to the knowledge graph. Each call to ${UNDOABLE_TOOLS.slice(0, -1).join(', ')} or ${UNDOABLE_TOOLS.at(-1)} counts as one change; deleted entities come back with their observations and relations. Undoing a delete takes its entry out of the trash and undoing restore_from_trash puts it back. Schema definitions and namespaces are not affected.
+
+Undone changes can be reapplied with redo until the graph is modified again.`,
     inputSchema: {
-      entityNames: z.array(z.string()).describe("Seed entity names to build the subgraph around"),
-      depth: z.number().optional().describe("Number of hops to expand from seed entities (default: 1)")
+      count: z.number().int().min(1).optional().describe("Number of changes to revert (default: 1)"),
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async ({ entityNames, depth }) => {
-    const result = await knowledgeGraphManager.getSubgraph(entityNames, depth ?? 1);
+  async ({ count, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.undo(count ?? 1);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: result
+      structuredContent: { ...result }
     };
   }
 );
 
-// Register filter_by_type tool
+// Register redo tool
 server.registerTool(
-  "filter_by_type",
+  "redo",
   {
-    title: "Filter By Type",
-    description: "Get all entities of a specific type (e.g., 'Module', 'Service', 'Pattern', 'Decision'). Returns entities and relations between them.",
+    title: "Redo",
+    description: "Reapply changes to the knowledge graph that were reverted with undo, oldest first.",
     inputSchema: {
-      entityType: z.string().describe("The entity type to filter by (case-insensitive)")
+      count: z.number().int().min(1).optional().describe("Number of changes to reapply (default: 1)"),
+      namespace: NamespaceSchema
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async ({ entityType }) => {
-    const result = await knowledgeGraphManager.filterByType(entityType);
+  async ({ count, namespace }) => {
+    const manager = await namespaces.get(namespace);
+    const result = await manager.redo(count ?? 1);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: result
+      structuredContent: { ...result }
     };
   }
 );
 
-// Register filter_relations tool
+// Register list_namespaces tool
 server.registerTool(
-  "filter_relations",
+  "list_namespaces",
   {
-    title: "Filter Relations",
-    description: "Filter relations by type, source entity, or target entity. Returns matching relations and their connected entities.",
-    inputSchema: {
-      relationType: z.string().optional().describe("Filter by relation type (e.g., 'imports', 'calls', 'implements')"),
-      fromEntity: z.string().optional().describe("Filter by source entity name"),
-      toEntity: z.string().optional().describe("Filter by target entity name")
-    },
+    title: "List Namespaces",
+    description: "List the memory namespaces. Each namespace is an independent knowledge graph, selected with the namespace argument of the other tools; calls without it use the default namespace.",
+    inputSchema: {},
     annotations: {
       readOnlyHint: true,
       openWorldHint: false
     }
   },
-  async ({ relationType, fromEntity, toEntity }) => {
-    const result = await knowledgeGraphManager.filterRelations({ relationType, fromEntity, toEntity });
+  async () => {
+    const result = await namespaces.list();
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: result
+      structuredContent: { namespaces: result }
     };
   }
 );
 
-// Register filter_observations tool
+// Register create_namespace tool
 server.registerTool(
-  "filter_observations",
+  "create_namespace",
   {
-    title: "Filter By Observation Pattern",
-    description: `Find entities with observations matching a pattern. Supports preset patterns and custom regex.
-
-Preset patterns:
-- "dated" - Observations starting with [YYYY-MM-DD]
-- "techdebt" - Observations containing tech debt markers (TODO, FIXME, HACK)
-- "deprecated" - Observations mentioning deprecated
-- "purpose" - Observations containing "Purpose:"
-- "quirk" - Observations containing "Quirk:"
-
-Or provide a custom regex pattern.`,
+    title: "Create Namespace",
+    description: "Create a new, empty memory namespace, for example one per project, to keep its knowledge separate from other namespaces",
     inputSchema: {
-      pattern: z.string().describe("Pattern name (dated, techdebt, deprecated, purpose, quirk) or a custom regex")
+      name: z.string().describe("The namespace name: up to 64 letters, digits, '-' or '_'")
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async ({ pattern }) => {
-    const entities = await knowledgeGraphManager.filterByObservation(pattern);
+  async ({ name }) => {
+    const result = await namespaces.create(name);
     return {
-      content: [{ type: "text" as const, text: JSON.stringify({ entities }, null, 2) }],
-      structuredContent: { entities }
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result }
     };
   }
 );
 
-// Register search_observations tool
+// Register delete_namespace tool
 server.registerTool(
-  "search_observations",
+  "delete_namespace",
   {
-    title: "Search Observations",
-    description: `Search at the observation level, returning individual matching observations with their parent entity context.
-
-Use for fact-finding: "when was X deprecated", "what's the status of Y", "why did we choose Z". Returns individual observations without entity bloat. Best when you need specific information buried within large entities, or when searching across a codebase for scattered implementation notes.
-
-Query Syntax (same as search_nodes):
-- Multiple words: OR logic (matches any word)
-- +term: Required (must be present)
-- -term: Excluded (must NOT be present)
-- "phrase": Exact phrase match
-
-Examples:
-- "auth security" - finds observations mentioning auth OR security
-- "+deprecated +2024" - finds observations with BOTH terms
-- "TODO -completed" - finds TODO mentions excluding completed ones`,
+    title: "Delete Namespace",
+    description: "Delete a memory namespace and its knowledge graph. The default namespace cannot be deleted. A final snapshot is kept, so re-creating the namespace and calling restore_snapshot brings the graph back.",
     inputSchema: {
-      query: z.string().describe("The search query (supports boolean operators)"),
-      limit: z.number().optional()
-        .describe("Maximum number of observations to return (default: 10)"),
-      includeEntity: z.boolean().optional()
-        .describe("Include full parent entities in response (default: false)"),
-      fuzzy: z.boolean().optional()
-        .describe("Enable fuzzy matching for typo tolerance (default: false)")
+      name: z.string().describe("The namespace to delete")
     },
     annotations: {
-      readOnlyHint: true,
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
       openWorldHint: false
     }
   },
-  async ({ query, limit, includeEntity, fuzzy }) => {
-    const result = await knowledgeGraphManager.searchObservations(query, { limit, includeEntity, fuzzy });
+  async ({ name }) => {
+    const result = await namespaces.delete(name);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
-      structuredContent: result
+      structuredContent: { ...result }
     };
   }
 );
 
+/**
+ * Read a numeric environment variable, failing on values that are not numbers
+ * rather than running with NaN, which every comparison treats as false.
+ */
+function numberFromEnv(name: string, integer: boolean): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`Invalid ${name} "${value}" (expected a non-negative ${integer ? 'integer' : 'number'})`);
+  }
+  return parsed;
+}
+
 async function main() {
   try {
     // Initialize memory file path with backward compatibility
     MEMORY_FILE_PATH = await ensureMemoryFilePath();
     console.error(`[better-memory-mcp] Memory file path: ${MEMORY_FILE_PATH}`);
 
-    // Initialize knowledge graph manager with the memory file path
-    knowledgeGraphManager = new KnowledgeGraphManager(MEMORY_FILE_PATH);
+    // Read-only graphs: "[label=]path" entries separated like PATH
+    const mounts: MountOptions[] = (process.env.MEMORY_MOUNTS || '')
+      .split(path.delimiter)
+      .filter(entry => entry.trim() !== '')
+      .map(entry => {
+        const match = /^([\w-]+)=(.+)$/.exec(entry.trim());
+        const filePath = match ? match[2] : entry.trim();
+        return {
+          filePath: path.resolve(path.dirname(MEMORY_FILE_PATH), filePath),
+          label: match ? match[1] : undefined
+        };
+      });
+    mounts.forEach(mount => console.error(`[better-memory-mcp] Mounted read-only: ${mount.filePath}`));
+
+    // Initialize the namespaces, whose default is the memory file path
+    const backend = (process.env.MEMORY_BACKEND || 'jsonl').toLowerCase();
+    if (backend !== 'jsonl' && backend !== 'sqlite') {
+      throw new Error(`Unsupported MEMORY_BACKEND "${process.env.MEMORY_BACKEND}" (expected "jsonl" or "sqlite")`);
+    }
+    if (backend === 'sqlite') requireSqliteModule();
+    console.error(`[better-memory-mcp] Storage backend: ${backend}`);
+
+    const snapshotMinutes = numberFromEnv('MEMORY_SNAPSHOT_INTERVAL_MINUTES', false);
+
+    namespaces = new NamespaceManager(MEMORY_FILE_PATH, {
+      directory: process.env.MEMORY_NAMESPACE_DIR
+        ? path.resolve(path.dirname(MEMORY_FILE_PATH), process.env.MEMORY_NAMESPACE_DIR)
+        : undefined,
+      defaultNamespace: process.env.MEMORY_DEFAULT_NAMESPACE || undefined,
+      backend,
+      journal: process.env.MEMORY_JOURNAL === 'true',
+      journalCompactionThreshold: numberFromEnv('MEMORY_JOURNAL_COMPACTION_THRESHOLD', true),
+      snapshots: {
+        count: numberFromEnv('MEMORY_SNAPSHOT_COUNT', true),
+        intervalMs: snapshotMinutes !== undefined ? snapshotMinutes * 60 * 1000 : undefined
+      },
+      undoLimit: numberFromEnv('MEMORY_UNDO_LIMIT', true),
+      softDelete: process.env.MEMORY_SOFT_DELETE !== 'false',
+      mounts,
+      schema: {
+        filePath: process.env.MEMORY_SCHEMA_FILE
+          ? path.resolve(path.dirname(MEMORY_FILE_PATH), process.env.MEMORY_SCHEMA_FILE)
+          : undefined,
+        mode: parseSchemaMode(process.env.MEMORY_SCHEMA_MODE || undefined, 'MEMORY_SCHEMA_MODE')
+      }
+    });
+    console.error(`[better-memory-mcp] Default namespace: ${namespaces.defaultNamespace}`);
+
+    // Optionally prune expired items of every namespace before serving requests
+    const pruneMode = process.env.MEMORY_PRUNE_EXPIRED?.toLowerCase();
+    if (pruneMode) {
+      if (pruneMode !== 'archive' && pruneMode !== 'delete') {
+        throw new Error(`Unsupported MEMORY_PRUNE_EXPIRED "${process.env.MEMORY_PRUNE_EXPIRED}" (expected "archive" or "delete")`);
+      }
+      for (const { name } of await namespaces.list()) {
+        const pruned = await (await namespaces.get(name)).pruneExpired({ mode: pruneMode });
+        const count = pruned.observations.reduce((sum, group) => sum + group.observations.length, 0);
+        if (pruned.entities.length > 0 || count > 0) {
+          console.error(`[better-memory-mcp] Pruned ${pruned.entities.length} expired entities and ${count} expired observations from namespace ${name} (${pruneMode})`);
+        }
+      }
+    }
 
     const transport = new StdioServerTransport();
     await server.connect(transport);